@@ -0,0 +1,159 @@
+/**
+ * CallbackList - Ordered callback registry behind the Game loop phases.
+ * Callbacks run by ascending priority (registration order breaks ties).
+ * Safe to add or remove callbacks while the list is running. A callback
+ * that throws is reported through onError and the pass carries on.
+ */
+
+import { RingBuffer } from './RingBuffer';
+import { Profiler, type CallbackProfile } from './Profiler';
+
+/** Named loop phases — shorthand for well-known priorities. */
+export type LoopPhase = 'input' | 'simulation' | 'animation' | 'camera';
+
+/** Game loop hook a callback list belongs to */
+export type LoopHook = 'preUpdate' | 'fixedUpdate' | 'update' | 'lateUpdate' | 'postRender';
+
+/** Base priority for each named phase (lower runs first) */
+export const LOOP_PHASES: Readonly<Record<LoopPhase, number>> = {
+  input: -100,
+  simulation: 0,
+  animation: 100,
+  camera: 200,
+};
+
+/** Passed to Game.onError listeners when a loop callback throws */
+export interface LoopError {
+  error: unknown;
+  /** Loop hook the callback was registered with */
+  hook: LoopHook;
+  /** Callback label (see CallbackOptions.label) */
+  label: string;
+  /** Times this callback has thrown so far */
+  failures: number;
+  /** Whether the callback was removed for reaching maxCallbackFailures */
+  disabled: boolean;
+}
+
+/** Options for Game.onFixedUpdate/onUpdate/onLateUpdate and friends */
+export interface CallbackOptions {
+  /** Named phase the callback belongs to. Default: 'simulation' */
+  phase?: LoopPhase;
+  /** Offset from the phase's base priority — lower runs first. Default: 0 */
+  priority?: number;
+  /** Keep running while the game is paused (pause menus, devtools). Fixed steps never run paused. Default: false */
+  runWhenPaused?: boolean;
+  /** Name shown in profiles. Default: the function's name */
+  label?: string;
+}
+
+interface CallbackEntry {
+  cb: () => void;
+  label: string;
+  priority: number;
+  runWhenPaused: boolean;
+  removed: boolean;
+  failures: number;
+  /** Milliseconds spent this frame (profiling only) */
+  frameMs: number;
+  history: RingBuffer | null;
+}
+
+export class CallbackList {
+  readonly hook: LoopHook;
+  /** Time each callback while true */
+  profiling = false;
+  /** Failures after which a throwing callback is removed */
+  maxFailures = Infinity;
+  /** Receives every exception thrown by a callback; the pass continues with the next one */
+  onError: ((error: LoopError) => void) | null = null;
+  /** Replaced (never mutated) on add/remove so a running pass keeps its snapshot. */
+  private entries: CallbackEntry[] = [];
+
+  constructor(hook: LoopHook) {
+    this.hook = hook;
+  }
+
+  /** Insert a callback in priority order. Returns an unsubscribe function. */
+  add(cb: () => void, options?: CallbackOptions): () => void {
+    const priority = LOOP_PHASES[options?.phase ?? 'simulation'] + (options?.priority ?? 0);
+    const entry: CallbackEntry = {
+      cb,
+      label: options?.label ?? (cb.name || 'anonymous'),
+      priority,
+      runWhenPaused: options?.runWhenPaused ?? false,
+      removed: false,
+      failures: 0,
+      frameMs: 0,
+      history: null,
+    };
+
+    // Insert after every entry with the same or lower priority
+    let i = this.entries.length;
+    while (i > 0 && this.entries[i - 1].priority > priority) i--;
+    this.entries = [...this.entries.slice(0, i), entry, ...this.entries.slice(i)];
+
+    return () => this.remove(entry);
+  }
+
+  /**
+   * Run every callback once, in order. Callbacks added mid-pass run next pass.
+   * While paused, only callbacks registered with runWhenPaused run.
+   */
+  run(paused = false): void {
+    for (const entry of this.entries) {
+      if (entry.removed || (paused && !entry.runWhenPaused)) continue;
+      const start = this.profiling ? performance.now() : 0;
+      try {
+        entry.cb();
+      } catch (error) {
+        this.fail(entry, error);
+      }
+      if (this.profiling) entry.frameMs += performance.now() - start;
+    }
+  }
+
+  /** Close the profiling frame: push each callback's accumulated time into its history. */
+  endFrame(window: number): void {
+    for (const entry of this.entries) {
+      if (!entry.history || entry.history.capacity !== window) entry.history = new RingBuffer(window);
+      entry.history.push(entry.frameMs);
+      entry.frameMs = 0;
+    }
+  }
+
+  /** Per-callback timing over each callback's recorded history. */
+  profile(): CallbackProfile[] {
+    return this.entries.map((entry) => ({
+      hook: this.hook,
+      label: entry.label,
+      ...(entry.history ? Profiler.stats(entry.history) : { last: 0, avg: 0, max: 0 }),
+    }));
+  }
+
+  /** Drop recorded timings (profiling toggled). */
+  resetProfile(): void {
+    for (const entry of this.entries) {
+      entry.frameMs = 0;
+      entry.history = null;
+    }
+  }
+
+  private remove(entry: CallbackEntry): void {
+    if (entry.removed) return;
+    // Flag first so a pass already in progress skips it
+    entry.removed = true;
+    this.entries = this.entries.filter((e) => e !== entry);
+  }
+
+  private fail(entry: CallbackEntry, error: unknown): void {
+    entry.failures++;
+    const disabled = entry.failures >= this.maxFailures;
+    if (disabled) this.remove(entry);
+    if (this.onError) {
+      this.onError({ error, hook: this.hook, label: entry.label, failures: entry.failures, disabled });
+    } else {
+      throw error;
+    }
+  }
+}
@@ -3,62 +3,350 @@
  */
 
 import type { Container } from 'pixi.js';
+import type { Game } from './Game';
 import { Time } from './Time';
+import { Ease, type EaseFunction } from './easing';
+import { Random } from './Random';
+import { createNoise1D } from './noise';
+import { closestOnPolyline, createSplinePath, type SplinePath } from './spline';
 import type { Vector2 } from './types';
 
+/** Axis-aligned rectangle in world units */
+export interface CameraRect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** How a shake moves the view at full trauma. Defaults come from CameraConfig.shake. */
+export interface ShakeOptions {
+  /** Offset in world units at trauma 1. Default: 24 */
+  maxOffset?: number;
+  /** Roll in radians at trauma 1. Default: 0 */
+  maxRoll?: number;
+  /** Noise frequency — how fast the view wobbles, in Hz. Default: 12 */
+  frequency?: number;
+  /** Trauma lost per second. Default: 1 */
+  decay?: number;
+  /** Seconds to fade from the starting trauma to zero — overrides `decay` */
+  duration?: number;
+}
+
+/** Options for Camera.zoomTo() */
+export interface ZoomOptions {
+  /** Screen point to zoom around — the world point under it stays put. Default: viewport center */
+  at?: Vector2;
+}
+
+interface ZoomAnimation {
+  from: number;
+  to: number;
+  duration: number;
+  elapsed: number;
+  easing: EaseFunction;
+  at: Vector2 | null;
+  resolve: () => void;
+}
+
+/** One member of a followGroup() — a bare position function counts with weight 1 */
+export type CameraGroupTarget = (() => Vector2) | {
+  position: () => Vector2;
+  /** Pull on the frame center relative to other targets. 0 keeps a target in frame without pulling. Default: 1 */
+  weight?: number;
+};
+
+/** Options for Camera.followGroup() */
+export interface GroupFollowOptions {
+  /** Screen pixels kept clear between every target and the viewport edge. Default: 100 */
+  padding?: number;
+  /** Furthest the group can zoom out. Default: camera.minZoom */
+  minZoom?: number;
+  /** Furthest the group can zoom in. Default: 1 */
+  maxZoom?: number;
+  /** Zoom speed (higher = tighter). Default: 3 */
+  zoomSmoothing?: number;
+}
+
+interface CameraGroup {
+  targets: Array<{ position: () => Vector2; weight: number }>;
+  padding: number;
+  minZoom: number;
+  maxZoom: number;
+  zoomSmoothing: number;
+}
+
+/** Lead the camera in the direction the target is moving */
+export interface LookAheadConfig {
+  /** Horizontal and vertical lead in world units at full speed */
+  distance: Vector2;
+  /** Target speed (world units/s) that earns the full distance. Default: 300 */
+  speed?: number;
+  /** Horizontal and vertical lead speed (higher = tighter). Default: [3, 3] */
+  smoothing?: Vector2;
+  /** Read the target's velocity instead of deriving it from successive positions */
+  velocity?: () => Vector2;
+}
+
+/**
+ * A region that overrides camera settings while the follow target is inside
+ * it — lock to a room, follow a rail, zoom out for an arena.
+ */
+export interface CameraZone {
+  /** Area that activates the zone, tested against the follow target (before offset) */
+  rect: CameraRect;
+  /** Bounds to use instead of camera.bounds — pass `rect` to lock the view to a room */
+  bounds?: CameraRect;
+  /** Zoom while inside; the previous zoom comes back on leaving */
+  zoom?: number;
+  /** Offset to use instead of camera.offset */
+  offset?: Vector2;
+  /** Keep the camera on this polyline, at the point closest to the target */
+  rail?: Vector2[];
+  /** Where zones overlap, the highest priority wins (ties: last added). Default: 0 */
+  priority?: number;
+  /** Seconds to blend into this zone, and out of it. Default: 0.5 */
+  blend?: number;
+}
+
+/** Options for Camera.playPath() */
+export interface CameraPathOptions {
+  /** Default: Ease.quadInOut */
+  easing?: EaseFunction;
+  /** Seconds to blend back to the follow target afterwards. Default: 0.5 */
+  blendOut?: number;
+}
+
+interface PathPlayback {
+  path: SplinePath;
+  duration: number;
+  elapsed: number;
+  easing: EaseFunction;
+  blendOut: number;
+  resolve: () => void;
+}
+
+interface ViewBlend {
+  from: Vector2;
+  duration: number;
+  elapsed: number;
+}
+
+/** Options for Camera.addParallax() */
+export interface ParallaxOptions {
+  /** Scroll speed relative to the world per axis — 0 stays put, 1 moves with the world. A number sets both */
+  factor: number | Vector2;
+  /** How much camera zoom reaches the layer — 0 ignores zoom, 1 zooms like the world. Default: 0 */
+  zoom?: number;
+  /** World point where the layer lines up with the world. Default: [0, 0] */
+  origin?: Vector2;
+  /** Repeat period per axis for tiled layers — the layer scrolls forever, jumping back one period at a time */
+  wrap?: { x?: number; y?: number };
+}
+
+interface ParallaxLayer {
+  container: Container;
+  factor: Vector2;
+  zoom: number;
+  origin: Vector2;
+  wrapX: number;
+  wrapY: number;
+}
+
+/** Options for Camera.kick() */
+export interface KickOptions {
+  /** How fast the view springs back — higher is snappier. Default: 12 */
+  recovery?: number;
+}
+
+interface ShakeSource {
+  trauma: number;
+  maxOffset: number;
+  maxRoll: number;
+  frequency: number;
+  decay: number;
+  /** Seconds since the shake started, on unscaled time */
+  time: number;
+  /** Noise offsets so each axis (and each source) wobbles independently */
+  phase: [number, number, number];
+}
+
 /** Camera configuration */
 export interface CameraConfig {
-  /** Viewport size (needed for bounds clamping) */
-  viewport: { width: number; height: number };
+  /** Viewport size (needed for bounds clamping). Default: game size when `game` is set */
+  viewport?: { width: number; height: number };
+  /** Follow the game's virtual size — the viewport updates on every game.onResize. */
+  game?: Game;
   /** Zoom level (1 = 100%) */
   zoom?: number;
+  /** Smallest zoom allowed (furthest out). Default: 0.1 */
+  minZoom?: number;
+  /** Largest zoom allowed (furthest in). Default: 10 */
+  maxZoom?: number;
+  /** Rotation in radians — positive turns the camera clockwise, so the world appears to turn counter-clockwise. Default: 0 */
+  rotation?: number;
+  /** Rotation speed (higher = tighter). Default: 10 */
+  rotationSmoothing?: number;
   /** Follow speed (higher = tighter follow) */
   followSmoothing?: number;
   /** Offset from target position */
   offset?: Vector2;
   /** World bounds to constrain camera */
-  bounds?: { minX: number; minY: number; maxX: number; maxY: number };
+  bounds?: CameraRect;
   /** Deadzone - area target can move without camera moving */
   deadzone?: { width: number; height: number };
+  /** Lead the camera in the direction of motion */
+  lookAhead?: LookAheadConfig;
+  /** Default shake options for every shake() call */
+  shake?: ShakeOptions;
+  /** Seed for shake noise — the same seed replays the same shakes. Default: random */
+  shakeSeed?: number;
 }
 
 export class Camera {
-  /** Zoom level */
-  zoom: number;
+  /** Smallest zoom allowed */
+  minZoom: number;
+
+  /** Largest zoom allowed */
+  maxZoom: number;
 
   /** Follow speed */
   followSmoothing: number;
 
+  /** Target rotation in radians — the view turns towards it at rotationSmoothing */
+  rotation: number;
+
+  /** Rotation speed */
+  rotationSmoothing: number;
+
   /** Offset from target */
   offset: Vector2;
 
   /** World bounds */
-  bounds?: { minX: number; minY: number; maxX: number; maxY: number };
+  bounds?: CameraRect;
 
   /** Deadzone */
   deadzone?: { width: number; height: number };
 
+  /** Look-ahead — unset to stop leading (the lead eases back out) */
+  lookAhead?: LookAheadConfig;
+
   private container: Container;
   private viewportWidth: number;
   private viewportHeight: number;
   private targetFn: (() => Vector2) | null = null;
   private currentPosition: Vector2 = [0, 0];
+  private currentRotation = 0;
+  private currentZoom: number;
+  private zoomAnimation: ZoomAnimation | null = null;
+  private group: CameraGroup | null = null;
+  private zones: CameraZone[] = [];
+  private activeZone: CameraZone | null = null;
+  /** Zoom to return to after leaving zones that set one */
+  private zoneBaseZoom: number | null = null;
+  private path: PathPlayback | null = null;
+  private blend: ViewBlend | null = null;
+  /** Position shown on screen before shake — currentPosition, or a blend towards it */
+  private viewPosition: Vector2 = [0, 0];
+  private parallaxLayers: ParallaxLayer[] = [];
+  private lookOffset: Vector2 = [0, 0];
+  private lastTargetSample: Vector2 | null = null;
+  private unsubscribeResize: (() => void) | null = null;
 
   // Screen shake state
-  private shakeIntensity = 0;
-  private shakeDuration = 0;
-  private shakeElapsed = 0;
-  private shakeDecay = 0.9;
+  private shakeDefaults: ShakeOptions;
+  private shakes: ShakeSource[] = [];
+  private random: Random;
+  private noise: (x: number) => number;
+  private kickOffset: Vector2 = [0, 0];
+  private kickRecovery = 12;
 
   constructor(worldContainer: Container, config: CameraConfig) {
     this.container = worldContainer;
-    this.viewportWidth = config.viewport.width;
-    this.viewportHeight = config.viewport.height;
-    this.zoom = config.zoom ?? 1;
+    const viewport = config.viewport ?? (config.game && { width: config.game.width, height: config.game.height });
+    if (!viewport) throw new Error('Camera: pass a viewport or a game to size from');
+    this.viewportWidth = viewport.width;
+    this.viewportHeight = viewport.height;
+    this.minZoom = config.minZoom ?? 0.1;
+    this.maxZoom = config.maxZoom ?? 10;
+    this.currentZoom = this.clampZoom(config.zoom ?? 1);
     this.followSmoothing = config.followSmoothing ?? 5;
+    this.rotation = this.currentRotation = config.rotation ?? 0;
+    this.rotationSmoothing = config.rotationSmoothing ?? 10;
     this.offset = config.offset ? [...config.offset] : [0, 0];
     if (config.bounds) this.bounds = { ...config.bounds };
     if (config.deadzone) this.deadzone = { ...config.deadzone };
+    if (config.lookAhead) this.lookAhead = { ...config.lookAhead };
+    this.shakeDefaults = { ...config.shake };
+    this.random = new Random(config.shakeSeed);
+    this.noise = createNoise1D(this.random);
+    if (config.game) {
+      this.unsubscribeResize = config.game.onResize((width, height) => this.setViewport(width, height));
+    }
+  }
+
+  /** Zoom level (1 = 100%), kept within minZoom–maxZoom. Setting it stops any zoomTo() animation. */
+  get zoom(): number {
+    return this.currentZoom;
+  }
+
+  set zoom(level: number) {
+    this.stopZoom();
+    this.currentZoom = this.clampZoom(level);
+  }
+
+  /**
+   * Animate zoom to `level` over `duration` seconds of game time. Resolves when
+   * it gets there, or when another zoom takes over.
+   */
+  zoomTo(level: number, duration = 0.5, easing: EaseFunction = Ease.quadInOut, options?: ZoomOptions): Promise<void> {
+    this.stopZoom();
+    return new Promise((resolve) => {
+      this.zoomAnimation = {
+        from: this.currentZoom,
+        to: this.clampZoom(level),
+        duration,
+        elapsed: 0,
+        easing,
+        at: options?.at ? [...options.at] : null,
+        resolve,
+      };
+      if (duration <= 0) this.updateZoom();
+    });
+  }
+
+  /**
+   * Zoom instantly, keeping the world point under screen point (x, y) where it
+   * is — mouse-wheel and pinch zoom.
+   */
+  zoomAt(level: number, screenX: number, screenY: number): void {
+    this.stopZoom();
+    this.setZoomAround(this.clampZoom(level), [screenX, screenY]);
+  }
+
+  /** Stop a zoomTo() animation where it is. */
+  stopZoom(): void {
+    const animation = this.zoomAnimation;
+    this.zoomAnimation = null;
+    animation?.resolve();
+  }
+
+  /** Change the viewport size (window resize). Called automatically when `game` is set. */
+  setViewport(width: number, height: number): void {
+    this.viewportWidth = width;
+    this.viewportHeight = height;
+  }
+
+  /** Get the viewport size. */
+  getViewport(): { width: number; height: number } {
+    return { width: this.viewportWidth, height: this.viewportHeight };
+  }
+
+  /** Stop listening for game resizes. The container keeps its last transform. */
+  destroy(): void {
+    this.unsubscribeResize?.();
+    this.unsubscribeResize = null;
+    this.targetFn = null;
   }
 
   /**
@@ -68,103 +356,489 @@ export class Camera {
    * (smooth follow in update() handles transitions).
    */
   follow(targetFn: () => Vector2): void {
-    const shouldSnap = this.targetFn === null;
-    this.targetFn = targetFn;
-    if (shouldSnap) {
-      const pos = targetFn();
-      this.currentPosition = [pos[0] + this.offset[0], pos[1] + this.offset[1]];
-    }
+    this.group = null;
+    this.setTarget(targetFn);
+  }
+
+  /**
+   * Follow several targets at once — local co-op, boss fights. The camera
+   * centers on their weighted average and zooms between the group's min/max
+   * zoom so all of them stay inside the padded frame. Call again with a new
+   * list when targets join or leave; it only snaps if nothing was followed before.
+   */
+  followGroup(targets: CameraGroupTarget[], options?: GroupFollowOptions): void {
+    this.group = {
+      targets: targets.map((t) => (typeof t === 'function' ? { position: t, weight: 1 } : { position: t.position, weight: t.weight ?? 1 })),
+      padding: options?.padding ?? 100,
+      minZoom: options?.minZoom ?? this.minZoom,
+      maxZoom: options?.maxZoom ?? 1,
+      zoomSmoothing: options?.zoomSmoothing ?? 3,
+    };
+    this.setTarget(() => this.groupCenter());
   }
 
-  /** Stop following. */
+  /** Stop following. Leaves the active zone, restoring the zoom it overrode. */
   unfollow(): void {
     this.targetFn = null;
+    this.group = null;
+    // Zones follow the target — without one, drop the zone's overrides
+    this.activeZone = null;
+    if (this.zoneBaseZoom !== null) {
+      this.zoom = this.zoneBaseZoom;
+      this.zoneBaseZoom = null;
+    }
   }
 
-  /** Apply screen shake with intensity that decays over time. */
-  shake(intensity: number, config?: { duration?: number; decay?: number }): void {
-    this.shakeIntensity = intensity;
-    this.shakeDuration = config?.duration ?? 0;
-    this.shakeElapsed = 0;
-    this.shakeDecay = config?.decay ?? 0.9;
+  /**
+   * Add a shake source with `trauma` (0–1). The view moves by trauma², so
+   * small hits barely register and big ones hit hard; trauma fades linearly.
+   * Shakes stack: each call adds a source rather than replacing the last.
+   */
+  shake(trauma: number, options?: ShakeOptions): void {
+    const o = { ...this.shakeDefaults, ...options };
+    const start = Math.max(0, Math.min(1, trauma));
+    if (start === 0) return;
+    this.shakes.push({
+      trauma: start,
+      maxOffset: o.maxOffset ?? 24,
+      maxRoll: o.maxRoll ?? 0,
+      frequency: o.frequency ?? 12,
+      decay: o.duration !== undefined ? start / Math.max(o.duration, 1e-6) : o.decay ?? 1,
+      time: 0,
+      phase: [this.random.range(0, 256), this.random.range(0, 256), this.random.range(0, 256)],
+    });
+  }
+
+  /**
+   * Knock the view along `direction` (world units) — recoil, impacts — and
+   * let it spring back. Kicks add up with each other and with shake.
+   */
+  kick(direction: Vector2, options?: KickOptions): void {
+    this.kickOffset = [this.kickOffset[0] + direction[0], this.kickOffset[1] + direction[1]];
+    this.kickRecovery = options?.recovery ?? 12;
   }
 
-  /** Stop any active screen shake immediately. */
+  /** Current total trauma of all shake sources (can exceed 1 while shakes stack). */
+  getTrauma(): number {
+    return this.shakes.reduce((sum, shake) => sum + shake.trauma, 0);
+  }
+
+  /** Reseed shake noise — e.g. at the start of a replay. */
+  seedShake(seed: number): void {
+    this.random.seed(seed);
+    this.noise = createNoise1D(this.random);
+  }
+
+  /** Stop any active screen shake and kick immediately. */
   stopShake(): void {
-    this.shakeIntensity = 0;
+    this.shakes = [];
+    this.kickOffset = [0, 0];
   }
 
   /** Update camera (call in lateUpdate). */
   update(): void {
-    let targetPos = this.getTargetPosition();
+    // Zoom and rotation first, so follow and bounds clamping see this frame's view
+    this.updateZoom();
+    if (this.group && !this.zoomAnimation) this.updateGroupZoom(this.group);
+    this.currentRotation = this.smoothRotation();
+
+    if (this.path) {
+      this.currentPosition = this.updatePath(this.path);
+    } else {
+      this.updateActiveZone();
+      let targetPos = this.getTargetPosition();
+
+      if (this.deadzone) {
+        targetPos = this.applyDeadzone(targetPos);
+      }
 
-    if (this.deadzone) {
-      targetPos = this.applyDeadzone(targetPos);
-    }
+      if (this.activeZone?.rail && this.activeZone.rail.length > 0) {
+        targetPos = closestOnPolyline(this.activeZone.rail, targetPos);
+      }
 
-    this.currentPosition = this.smoothFollow(targetPos);
+      this.currentPosition = this.smoothFollow(targetPos);
 
-    if (this.bounds) {
-      this.currentPosition = this.clampToBounds(this.currentPosition);
+      const bounds = this.activeZone?.bounds ?? this.bounds;
+      if (bounds) {
+        this.currentPosition = this.clampToBounds(this.currentPosition, bounds);
+      }
     }
+    this.viewPosition = this.updateBlend();
 
     // Apply shake offset (does NOT modify currentPosition — follow stays smooth)
-    let renderX = this.currentPosition[0];
-    let renderY = this.currentPosition[1];
+    const [shakeX, shakeY, shakeRoll] = this.updateShake();
+    this.applyTransform(
+      this.viewPosition[0] + shakeX,
+      this.viewPosition[1] + shakeY,
+      this.currentRotation + shakeRoll,
+    );
+  }
 
-    if (this.shakeIntensity > 0.5) {
-      renderX += (Math.random() * 2 - 1) * this.shakeIntensity;
-      renderY += (Math.random() * 2 - 1) * this.shakeIntensity;
+  /**
+   * Drive `container` as a parallax layer — a background or foreground on the
+   * stage, outside `world`. It scrolls at `factor` of the camera's movement and
+   * is updated with the world every update(), shake and smoothing included.
+   * Returns a function that stops driving it.
+   */
+  addParallax(container: Container, options: ParallaxOptions): () => void {
+    const factor: Vector2 = typeof options.factor === 'number' ? [options.factor, options.factor] : [...options.factor];
+    const layer: ParallaxLayer = {
+      container,
+      factor,
+      zoom: options.zoom ?? 0,
+      origin: options.origin ? [...options.origin] : [0, 0],
+      wrapX: options.wrap?.x ?? 0,
+      wrapY: options.wrap?.y ?? 0,
+    };
+    this.parallaxLayers.push(layer);
+    return () => {
+      const idx = this.parallaxLayers.indexOf(layer);
+      if (idx !== -1) this.parallaxLayers.splice(idx, 1);
+    };
+  }
 
-      this.shakeIntensity *= Math.pow(this.shakeDecay, Time.deltaTime * 60);
+  /** Stop driving every parallax layer. Layers keep their last transform. */
+  clearParallax(): void {
+    this.parallaxLayers = [];
+  }
 
-      if (this.shakeDuration > 0) {
-        this.shakeElapsed += Time.deltaTime;
-        if (this.shakeElapsed >= this.shakeDuration) {
-          this.shakeIntensity = 0;
-        }
-      }
-    }
+  /**
+   * Add a zone. Zones are checked every update against the follow target;
+   * switching zones blends the view over the zone's `blend` seconds.
+   * Returns a function that removes the zone.
+   */
+  addZone(zone: CameraZone): () => void {
+    this.zones.push(zone);
+    return () => {
+      const idx = this.zones.indexOf(zone);
+      if (idx !== -1) this.zones.splice(idx, 1);
+    };
+  }
 
-    // Apply transform directly to PixiJS container
-    this.container.scale.set(this.zoom, this.zoom);
-    this.container.position.set(
-      this.viewportWidth / 2 - renderX * this.zoom,
-      this.viewportHeight / 2 - renderY * this.zoom,
-    );
+  /** Remove every zone. The camera blends back to its own settings on the next update. */
+  clearZones(): void {
+    this.zones = [];
+  }
+
+  /** The zone currently overriding camera settings, if any. */
+  getActiveZone(): CameraZone | null {
+    return this.activeZone;
+  }
+
+  /**
+   * Move the camera along a smooth curve through `waypoints` over `duration`
+   * seconds of game time — cutscene fly-throughs. Follow is suspended while it
+   * plays, then the view blends back to the follow target. Resolves when the
+   * path ends or is stopped.
+   */
+  playPath(waypoints: Vector2[], duration: number, options?: CameraPathOptions): Promise<void> {
+    this.stopPath();
+    this.blend = null;
+    return new Promise((resolve) => {
+      this.path = {
+        path: createSplinePath(waypoints),
+        duration,
+        elapsed: 0,
+        easing: options?.easing ?? Ease.quadInOut,
+        blendOut: options?.blendOut ?? 0.5,
+        resolve,
+      };
+    });
+  }
+
+  /** Stop a playPath() early and blend back to the follow target. */
+  stopPath(): void {
+    const path = this.path;
+    if (!path) return;
+    this.path = null;
+    // Velocity sampled before the path would read as a jump
+    this.lastTargetSample = null;
+    this.startBlend(path.blendOut);
+    path.resolve();
+  }
+
+  /** Whether a playPath() is running. */
+  get playingPath(): boolean {
+    return this.path !== null;
   }
 
-  /** Instantly move camera to position (no smoothing). */
+  /** Instantly move camera to position (no smoothing). Rotation snaps to its target too; a playing path stops. */
   snapTo(x: number, y: number): void {
+    this.stopPath();
     this.currentPosition = [x, y];
-    this.container.scale.set(this.zoom, this.zoom);
-    this.container.position.set(
-      this.viewportWidth / 2 - x * this.zoom,
-      this.viewportHeight / 2 - y * this.zoom,
-    );
+    this.viewPosition = [x, y];
+    this.blend = null;
+    this.lookOffset = [0, 0];
+    this.currentRotation = this.rotation;
+    this.applyTransform(x, y, this.currentRotation);
+  }
+
+  /** Get the current (smoothed) rotation in radians, without shake. */
+  getRotation(): number {
+    return this.currentRotation;
   }
 
   /** Get current camera position. */
   getPosition(): Vector2 {
-    return [...this.currentPosition] as Vector2;
+    return [...this.viewPosition] as Vector2;
   }
 
-  /** Convert screen/canvas coordinates to world coordinates. */
+  /**
+   * Convert screen/canvas coordinates to world coordinates. Uses the transform
+   * last applied to the container, so it matches what is on screen — shake included.
+   */
   screenToWorld(screenX: number, screenY: number): Vector2 {
+    const { position, scale, pivot, rotation } = this.container;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const dx = screenX - position.x;
+    const dy = screenY - position.y;
     return [
-      (screenX - this.viewportWidth / 2) / this.zoom + this.currentPosition[0],
-      (screenY - this.viewportHeight / 2) / this.zoom + this.currentPosition[1],
+      (dx * cos + dy * sin) / scale.x + pivot.x,
+      (dy * cos - dx * sin) / scale.y + pivot.y,
+    ];
+  }
+
+  /** Convert world coordinates to screen/canvas coordinates — e.g. to place UI markers over world objects. */
+  worldToScreen(worldX: number, worldY: number): Vector2 {
+    const { position, scale, pivot, rotation } = this.container;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const dx = (worldX - pivot.x) * scale.x;
+    const dy = (worldY - pivot.y) * scale.y;
+    return [position.x + dx * cos - dy * sin, position.y + dx * sin + dy * cos];
+  }
+
+  /** The world-space rectangle currently on screen (its bounding box while rotated). */
+  getVisibleBounds(): CameraRect {
+    const corners = [
+      this.screenToWorld(0, 0),
+      this.screenToWorld(this.viewportWidth, 0),
+      this.screenToWorld(0, this.viewportHeight),
+      this.screenToWorld(this.viewportWidth, this.viewportHeight),
     ];
+    const xs = corners.map((c) => c[0]);
+    const ys = corners.map((c) => c[1]);
+    return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+  }
+
+  /**
+   * Whether a world point or rectangle is on screen, with the view grown by
+   * `margin` world units on every side — cull offscreen entities with a margin
+   * so they don't pop in at the edge.
+   */
+  isVisible(target: Vector2 | CameraRect, margin = 0): boolean {
+    const view = this.getVisibleBounds();
+    const rect = Array.isArray(target)
+      ? { minX: target[0], minY: target[1], maxX: target[0], maxY: target[1] }
+      : target;
+    return rect.maxX >= view.minX - margin && rect.minX <= view.maxX + margin
+      && rect.maxY >= view.minY - margin && rect.minY <= view.maxY + margin;
+  }
+
+  /**
+   * Apply the transform directly to the PixiJS container: the pivot is the
+   * world point at the viewport center, so zoom and rotation turn around it.
+   */
+  private applyTransform(x: number, y: number, rotation: number): void {
+    this.container.pivot.set(x, y);
+    this.container.scale.set(this.zoom, this.zoom);
+    this.container.rotation = -rotation;
+    this.container.position.set(this.viewportWidth / 2, this.viewportHeight / 2);
+    for (const layer of this.parallaxLayers) this.applyParallax(layer, x, y, rotation);
+  }
+
+  /** Same transform as the world, with movement scaled by the layer's factor and zoom influence. */
+  private applyParallax(layer: ParallaxLayer, x: number, y: number, rotation: number): void {
+    let pivotX = layer.origin[0] + (x - layer.origin[0]) * layer.factor[0];
+    let pivotY = layer.origin[1] + (y - layer.origin[1]) * layer.factor[1];
+    if (layer.wrapX > 0) pivotX = ((pivotX % layer.wrapX) + layer.wrapX) % layer.wrapX;
+    if (layer.wrapY > 0) pivotY = ((pivotY % layer.wrapY) + layer.wrapY) % layer.wrapY;
+    const zoom = 1 + (this.zoom - 1) * layer.zoom;
+    const c = layer.container;
+    c.pivot.set(pivotX, pivotY);
+    c.scale.set(zoom, zoom);
+    c.rotation = -rotation;
+    c.position.set(this.viewportWidth / 2, this.viewportHeight / 2);
+  }
+
+  private activeOffset(): Vector2 {
+    return this.activeZone?.offset ?? this.offset;
+  }
+
+  /**
+   * Switch to the highest-priority zone containing the follow target. A switch
+   * starts a view blend and hands zoom to the new zone (or back to the zoom
+   * from before the first zoomed zone).
+   */
+  private updateActiveZone(): void {
+    if (!this.targetFn) return;
+    const [x, y] = this.group ? this.groupCenter() : this.targetFn();
+    let next: CameraZone | null = null;
+    for (const zone of this.zones) {
+      const r = zone.rect;
+      if (x < r.minX || x > r.maxX || y < r.minY || y > r.maxY) continue;
+      if (!next || (zone.priority ?? 0) >= (next.priority ?? 0)) next = zone;
+    }
+    if (next === this.activeZone) return;
+
+    const previous = this.activeZone;
+    this.activeZone = next;
+    const blend = (next ?? previous)?.blend ?? 0.5;
+    this.startBlend(blend);
+    if (next?.zoom !== undefined) {
+      this.zoneBaseZoom ??= this.currentZoom;
+      void this.zoomTo(next.zoom, blend);
+    } else if (this.zoneBaseZoom !== null) {
+      void this.zoomTo(this.zoneBaseZoom, blend);
+      this.zoneBaseZoom = null;
+    }
+  }
+
+  /** Ease the view from where it is now to currentPosition over `duration` seconds. */
+  private startBlend(duration: number): void {
+    this.blend = duration > 0 ? { from: [...this.viewPosition] as Vector2, duration, elapsed: 0 } : null;
+  }
+
+  private updateBlend(): Vector2 {
+    const blend = this.blend;
+    if (!blend) return [...this.currentPosition] as Vector2;
+    blend.elapsed += Time.deltaTime;
+    const t = Math.min(1, blend.elapsed / blend.duration);
+    if (t >= 1) this.blend = null;
+    const k = Ease.quadInOut(t);
+    return [
+      blend.from[0] + (this.currentPosition[0] - blend.from[0]) * k,
+      blend.from[1] + (this.currentPosition[1] - blend.from[1]) * k,
+    ];
+  }
+
+  private updatePath(playback: PathPlayback): Vector2 {
+    playback.elapsed += Time.deltaTime;
+    const t = playback.duration > 0 ? Math.min(1, playback.elapsed / playback.duration) : 1;
+    const position = playback.path.at(playback.easing(t) * playback.path.length);
+    if (t >= 1) {
+      this.currentPosition = position;
+      this.viewPosition = position;
+      this.stopPath();
+    }
+    return position;
+  }
+
+  private setTarget(targetFn: () => Vector2): void {
+    const shouldSnap = this.targetFn === null;
+    this.targetFn = targetFn;
+    this.lastTargetSample = null;
+    if (shouldSnap) {
+      const pos = targetFn();
+      const offset = this.activeOffset();
+      this.currentPosition = this.viewPosition = [pos[0] + offset[0], pos[1] + offset[1]];
+    }
+  }
+
+  /** Weighted average of the group's positions (plain average when every weight is 0). */
+  private groupCenter(): Vector2 {
+    const targets = this.group?.targets ?? [];
+    if (targets.length === 0) {
+      const offset = this.activeOffset();
+      return [this.currentPosition[0] - offset[0], this.currentPosition[1] - offset[1]];
+    }
+    let x = 0;
+    let y = 0;
+    let total = 0;
+    for (const target of targets) {
+      const [px, py] = target.position();
+      x += px * target.weight;
+      y += py * target.weight;
+      total += target.weight;
+    }
+    if (total > 0) return [x / total, y / total];
+    return this.averagePosition(targets);
+  }
+
+  private averagePosition(targets: CameraGroup['targets']): Vector2 {
+    let x = 0;
+    let y = 0;
+    for (const target of targets) {
+      const [px, py] = target.position();
+      x += px;
+      y += py;
+    }
+    return [x / targets.length, y / targets.length];
+  }
+
+  /**
+   * Ease zoom towards the level that fits every group member around the
+   * camera's center, measured along the camera's rotated axes.
+   */
+  private updateGroupZoom(group: CameraGroup): void {
+    if (group.targets.length === 0) return;
+    const [cx, cy] = this.currentPosition;
+    const cos = Math.cos(this.currentRotation);
+    const sin = Math.sin(this.currentRotation);
+    let halfW = 0;
+    let halfH = 0;
+    for (const target of group.targets) {
+      const [px, py] = target.position();
+      const dx = px - cx;
+      const dy = py - cy;
+      halfW = Math.max(halfW, Math.abs(dx * cos + dy * sin));
+      halfH = Math.max(halfH, Math.abs(dy * cos - dx * sin));
+    }
+    const availableW = Math.max(1, this.viewportWidth / 2 - group.padding);
+    const availableH = Math.max(1, this.viewportHeight / 2 - group.padding);
+    let fit = Math.min(availableW / Math.max(halfW, 1e-6), availableH / Math.max(halfH, 1e-6));
+    fit = this.clampZoom(Math.max(group.minZoom, Math.min(group.maxZoom, fit)));
+    const t = Math.min(1, group.zoomSmoothing * Time.deltaTime);
+    this.currentZoom += (fit - this.currentZoom) * t;
   }
 
   private getTargetPosition(): Vector2 {
     if (this.targetFn) {
       const pos = this.targetFn();
-      return [pos[0] + this.offset[0], pos[1] + this.offset[1]];
+      const offset = this.activeOffset();
+      const [leadX, leadY] = this.updateLookAhead(pos);
+      return [pos[0] + offset[0] + leadX, pos[1] + offset[1] + leadY];
     }
     return [...this.currentPosition] as Vector2;
   }
 
+  /**
+   * Ease the lead towards distance × (speed / full speed) on each axis. The
+   * lead is smoothed rather than set, so reversing direction swings the
+   * camera across instead of snapping it.
+   */
+  private updateLookAhead(pos: Vector2): Vector2 {
+    const dt = Time.deltaTime;
+    const config = this.lookAhead;
+    let goal: Vector2 = [0, 0];
+
+    if (config) {
+      let velocity: Vector2 = [0, 0];
+      if (config.velocity) {
+        velocity = config.velocity();
+      } else if (this.lastTargetSample && dt > 0) {
+        velocity = [(pos[0] - this.lastTargetSample[0]) / dt, (pos[1] - this.lastTargetSample[1]) / dt];
+      }
+      const speed = config.speed ?? 300;
+      goal = [
+        Math.max(-1, Math.min(1, velocity[0] / speed)) * config.distance[0],
+        Math.max(-1, Math.min(1, velocity[1] / speed)) * config.distance[1],
+      ];
+    }
+    // Paused frames (dt = 0) keep the last sample, so resuming doesn't read as a jump
+    if (dt > 0) this.lastTargetSample = [pos[0], pos[1]];
+
+    const smoothing = config?.smoothing ?? [3, 3];
+    const tx = Math.min(1, smoothing[0] * dt);
+    const ty = Math.min(1, smoothing[1] * dt);
+    this.lookOffset = [
+      this.lookOffset[0] + (goal[0] - this.lookOffset[0]) * tx,
+      this.lookOffset[1] + (goal[1] - this.lookOffset[1]) * ty,
+    ];
+    return this.lookOffset;
+  }
+
   private smoothFollow(target: Vector2): Vector2 {
     const t = Math.min(1, this.followSmoothing * Time.deltaTime);
     return [
@@ -173,6 +847,79 @@ export class Camera {
     ];
   }
 
+  /** Advance a zoomTo() animation, and pull zoom back inside the limits if they changed. */
+  private updateZoom(): void {
+    const animation = this.zoomAnimation;
+    if (!animation) {
+      this.currentZoom = this.clampZoom(this.currentZoom);
+      return;
+    }
+    animation.elapsed += Time.deltaTime;
+    const t = animation.duration > 0 ? Math.min(1, animation.elapsed / animation.duration) : 1;
+    const level = animation.from + (animation.to - animation.from) * animation.easing(t);
+    if (animation.at) this.setZoomAround(level, animation.at);
+    else this.currentZoom = level;
+    if (t >= 1) this.stopZoom();
+  }
+
+  /** Set zoom, moving the camera so the world point under `at` stays under it. */
+  private setZoomAround(level: number, at: Vector2): void {
+    const dx = at[0] - this.viewportWidth / 2;
+    const dy = at[1] - this.viewportHeight / 2;
+    const k = 1 / this.currentZoom - 1 / level;
+    const cos = Math.cos(this.currentRotation);
+    const sin = Math.sin(this.currentRotation);
+    const shiftX = (dx * cos - dy * sin) * k;
+    const shiftY = (dx * sin + dy * cos) * k;
+    this.currentPosition = [this.currentPosition[0] + shiftX, this.currentPosition[1] + shiftY];
+    this.viewPosition = [this.viewPosition[0] + shiftX, this.viewPosition[1] + shiftY];
+    if (this.blend) this.blend.from = [this.blend.from[0] + shiftX, this.blend.from[1] + shiftY];
+    this.currentZoom = level;
+  }
+
+  private clampZoom(level: number): number {
+    return Math.max(this.minZoom, Math.min(this.maxZoom, level));
+  }
+
+  /**
+   * Sum every shake source and the kick into one offset and roll, then decay
+   * them. Unscaled, so shakes keep going through Time.hitStop() and slow-mo.
+   */
+  private updateShake(): [number, number, number] {
+    const dt = Time.unscaledDeltaTime;
+    let x = this.kickOffset[0];
+    let y = this.kickOffset[1];
+    let roll = 0;
+
+    if (this.shakes.length > 0) {
+      for (const shake of this.shakes) {
+        const amount = shake.trauma * shake.trauma;
+        const t = shake.time * shake.frequency;
+        x += this.noise(shake.phase[0] + t) * shake.maxOffset * amount;
+        y += this.noise(shake.phase[1] + t) * shake.maxOffset * amount;
+        roll += this.noise(shake.phase[2] + t) * shake.maxRoll * amount;
+        shake.time += dt;
+        shake.trauma -= shake.decay * dt;
+      }
+      this.shakes = this.shakes.filter((shake) => shake.trauma > 0);
+    }
+
+    const recover = Math.exp(-this.kickRecovery * dt);
+    this.kickOffset = [this.kickOffset[0] * recover, this.kickOffset[1] * recover];
+    if (Math.abs(this.kickOffset[0]) < 0.01 && Math.abs(this.kickOffset[1]) < 0.01) this.kickOffset = [0, 0];
+
+    return [x, y, roll];
+  }
+
+  /** Turn towards the target rotation the short way round. */
+  private smoothRotation(): number {
+    const t = Math.min(1, this.rotationSmoothing * Time.deltaTime);
+    let diff = (this.rotation - this.currentRotation) % (Math.PI * 2);
+    if (diff > Math.PI) diff -= Math.PI * 2;
+    else if (diff < -Math.PI) diff += Math.PI * 2;
+    return this.currentRotation + diff * t;
+  }
+
   private applyDeadzone(target: Vector2): Vector2 {
     const dz = this.deadzone!;
     const halfW = dz.width / 2;
@@ -192,10 +939,12 @@ export class Camera {
     return [tx, ty];
   }
 
-  private clampToBounds(pos: Vector2): Vector2 {
-    const b = this.bounds!;
-    const halfW = (this.viewportWidth / 2) / this.zoom;
-    const halfH = (this.viewportHeight / 2) / this.zoom;
+  private clampToBounds(pos: Vector2, b: CameraRect): Vector2 {
+    // Half extents of the rotated viewport's bounding box, in world units
+    const cos = Math.abs(Math.cos(this.currentRotation));
+    const sin = Math.abs(Math.sin(this.currentRotation));
+    const halfW = (this.viewportWidth * cos + this.viewportHeight * sin) / 2 / this.zoom;
+    const halfH = (this.viewportWidth * sin + this.viewportHeight * cos) / 2 / this.zoom;
 
     // When viewport is wider/taller than world bounds, center instead of
     // pinning to one edge. This happens with adaptive canvas widths where
@@ -0,0 +1,300 @@
+/**
+ * Coroutines - Frame-synchronized scripts for cutscenes and tutorials.
+ * A coroutine is a generator (or async function) that waits on frames,
+ * seconds, fixed steps, input or predicates. Driven by the Game loop.
+ */
+
+import { Time, type Clock } from './Time';
+import { Input } from './Input';
+import { EPSILON, reportError } from './scheduling';
+import type { LoopHook } from './CallbackList';
+
+/** Something a coroutine can wait on — `yield` it in generators, `await` it in async functions */
+export interface CoroutineWait extends PromiseLike<void> {
+  /** Loop phase the wait is checked in */
+  readonly phase: 'update' | 'fixed';
+}
+
+/** Values a generator coroutine may yield. A bare `yield` waits one frame. */
+export type CoroutineYield = CoroutineWait | PromiseLike<unknown> | void;
+
+/** Waits available to a coroutine, passed as its first argument */
+export interface CoroutineContext {
+  /** Resume on the next frame (same as a bare `yield`) */
+  frame(): CoroutineWait;
+  /** Resume after `count` frames */
+  frames(count: number): CoroutineWait;
+  /** Resume once `seconds` of Time.time have passed ('unscaled' uses Time.unscaledTime, a Clock its own time) */
+  seconds(seconds: number, clock?: 'scaled' | 'unscaled' | Clock): CoroutineWait;
+  /** Resume after `count` fixed steps, at the start of the step */
+  fixedStep(count?: number): CoroutineWait;
+  /** Resume on the frame Input.getButtonDown(name) is true */
+  buttonDown(name: string): CoroutineWait;
+  /** Resume on the frame Input.getKeyDown(code) is true */
+  keyDown(code: string): CoroutineWait;
+  /** Resume on the first frame `predicate` returns true */
+  until(predicate: () => boolean): CoroutineWait;
+}
+
+export type CoroutineFunction = (co: CoroutineContext) => Generator<CoroutineYield, void, unknown> | Promise<void>;
+
+/** Options for Coroutines.start() */
+export interface CoroutineOptions {
+  /** Stop automatically once `owner.destroyed` is true — any PixiJS Container works */
+  owner?: { destroyed: boolean };
+  /** Keep checking frame, time, input and predicate waits while the game is paused (pause menus). Default: false */
+  runWhenPaused?: boolean;
+}
+
+/** Handle to a running coroutine, returned by Coroutines.start() */
+export interface Coroutine {
+  /** Still running — not finished, stopped or failed */
+  readonly running: boolean;
+  readonly paused: boolean;
+  /** Resolves when the coroutine finishes, is stopped or throws */
+  readonly finished: Promise<void>;
+  /** Stop the coroutine. Generators run their `finally` blocks; async functions never resume. */
+  stop(): void;
+  pause(): void;
+  resume(): void;
+}
+
+/** Running coroutines */
+let routines: Routine[] = [];
+
+class Wait implements CoroutineWait {
+  readonly phase: 'update' | 'fixed';
+  /** Polled once per phase step; true once the wait is over */
+  readonly check: () => boolean;
+  private settled = false;
+  private resolvers: Array<() => void> = [];
+
+  constructor(routine: Routine, phase: 'update' | 'fixed', check: () => boolean) {
+    this.phase = phase;
+    this.check = check;
+    routine.track(this);
+  }
+
+  then<R1 = void, R2 = never>(
+    onfulfilled?: ((value: void) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): PromiseLike<R1 | R2> {
+    return new Promise<void>((resolve) => {
+      if (this.settled) resolve();
+      else this.resolvers.push(resolve);
+    }).then(onfulfilled, onrejected);
+  }
+
+  settle(): void {
+    this.settled = true;
+    for (const resolve of this.resolvers) resolve();
+    this.resolvers.length = 0;
+  }
+}
+
+class Routine implements Coroutine {
+  readonly owner: { destroyed: boolean } | null;
+  readonly runWhenPaused: boolean;
+  readonly finished: Promise<void>;
+  private iterator: Generator<CoroutineYield, void, unknown> | null = null;
+  private wait: Wait | null = null;
+  private resolveFinished!: () => void;
+  private done = false;
+  private isPaused = false;
+  private executing = false;
+  /** Error report label, from the coroutine function's name */
+  private label = 'coroutine anonymous';
+  /** Loop hook of the latest step, for error reports */
+  private hook: LoopHook = 'update';
+
+  constructor(owner: { destroyed: boolean } | null, runWhenPaused: boolean) {
+    this.owner = owner;
+    this.runWhenPaused = runWhenPaused;
+    this.finished = new Promise((resolve) => { this.resolveFinished = resolve; });
+  }
+
+  get running(): boolean {
+    return !this.done;
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  start(fn: CoroutineFunction): void {
+    if (fn.name) this.label = `coroutine ${fn.name}`;
+    const context = this.createContext();
+    let result: ReturnType<CoroutineFunction>;
+    try {
+      result = fn(context);
+    } catch (error) {
+      this.fail(error);
+      return;
+    }
+    if (typeof (result as Generator).next === 'function') {
+      this.iterator = result as Generator<CoroutineYield, void, unknown>;
+      this.advance();
+    } else {
+      (result as Promise<void>).then(() => this.finish(), (error) => this.fail(error));
+    }
+  }
+
+  stop(): void {
+    if (this.done) return;
+    this.finish();
+    // A generator can't be returned while it is executing — advance() returns it after the yield
+    if (!this.executing) this.iterator?.return();
+  }
+
+  pause(): void {
+    this.isPaused = true;
+  }
+
+  resume(): void {
+    this.isPaused = false;
+  }
+
+  /** Check the current wait during a loop phase; resume if it is over. */
+  step(phase: 'update' | 'fixed'): void {
+    if (this.done) return;
+    if (this.owner?.destroyed) {
+      this.stop();
+      return;
+    }
+    if (this.isPaused || !this.wait || this.wait.phase !== phase || !this.wait.check()) return;
+    this.hook = phase === 'fixed' ? 'fixedUpdate' : 'update';
+
+    const wait = this.wait;
+    this.wait = null;
+    if (this.iterator) this.advance();
+    else wait.settle();
+  }
+
+  /**
+   * Called for every wait created from this coroutine's context. Async
+   * coroutines wait on the latest one straight away, so a wait created
+   * before the loop's next check isn't missed while `await` settles.
+   */
+  track(wait: Wait): void {
+    if (!this.iterator && !this.done) this.wait = wait;
+  }
+
+  private advance(): void {
+    if (!this.iterator) return;
+    let result: IteratorResult<CoroutineYield, void>;
+    this.executing = true;
+    try {
+      result = this.iterator.next();
+    } catch (error) {
+      this.executing = false;
+      this.fail(error);
+      return;
+    }
+    this.executing = false;
+
+    if (this.done) {
+      // Stopped from inside the generator
+      this.iterator.return();
+    } else if (result.done) {
+      this.finish();
+    } else {
+      this.wait = this.toWait(result.value);
+    }
+  }
+
+  private toWait(value: CoroutineYield): Wait {
+    if (value instanceof Wait) return value;
+    if (value && typeof (value as PromiseLike<unknown>).then === 'function') {
+      let settled = false;
+      (value as PromiseLike<unknown>).then(() => { settled = true; }, () => { settled = true; });
+      return new Wait(this, 'update', () => settled);
+    }
+    return this.frameWait(1);
+  }
+
+  private frameWait(count: number): Wait {
+    const target = Time.frameCount + count;
+    return new Wait(this, 'update', () => Time.frameCount >= target);
+  }
+
+  private createContext(): CoroutineContext {
+    return {
+      frame: () => this.frameWait(1),
+      frames: (count) => this.frameWait(count),
+      seconds: (seconds, clock = 'scaled') => {
+        const now = () => {
+          if (typeof clock === 'object') return clock.time;
+          return clock === 'scaled' ? Time.time : Time.unscaledTime;
+        };
+        const target = now() + seconds;
+        return new Wait(this, 'update', () => now() + EPSILON >= target);
+      },
+      fixedStep: (count = 1) => {
+        let remaining = count;
+        return new Wait(this, 'fixed', () => --remaining <= 0);
+      },
+      buttonDown: (name) => new Wait(this, 'update', () => Input.getButtonDown(name)),
+      keyDown: (code) => new Wait(this, 'update', () => Input.getKeyDown(code)),
+      until: (predicate) => new Wait(this, 'update', predicate),
+    };
+  }
+
+  private finish(): void {
+    if (this.done) return;
+    this.done = true;
+    this.wait = null;
+    routines = routines.filter((r) => r !== this);
+    this.resolveFinished();
+  }
+
+  private fail(error: unknown): void {
+    this.finish();
+    reportError(error, this.hook, this.label);
+  }
+}
+
+export class Coroutines {
+  /**
+   * Start a coroutine. Generators run synchronously up to their first
+   * `yield`; async functions up to their first `await`.
+   */
+  static start(fn: CoroutineFunction, options?: CoroutineOptions): Coroutine {
+    const routine = new Routine(options?.owner ?? null, options?.runWhenPaused ?? false);
+    routines = [...routines, routine];
+    routine.start(fn);
+    return routine;
+  }
+
+  /** Stop every coroutine, or only those started with `owner`. */
+  static stopAll(owner?: { destroyed: boolean }): void {
+    for (const routine of routines) {
+      if (owner === undefined || routine.owner === owner) routine.stop();
+    }
+  }
+
+  /** Number of running coroutines. */
+  static get count(): number {
+    return routines.length;
+  }
+
+  /**
+   * Resume coroutines waiting on frames, time, input or predicates (called by
+   * Game loop once per frame). While paused, only runWhenPaused coroutines are checked.
+   */
+  static update(paused = false): void {
+    for (const routine of routines) {
+      if (!paused || routine.runWhenPaused) routine.step('update');
+    }
+  }
+
+  /** Resume coroutines waiting on fixed steps (called by Game loop once per fixed step). */
+  static fixedUpdate(): void {
+    for (const routine of routines) routine.step('fixed');
+  }
+
+  /** Stop every coroutine. */
+  static clear(): void {
+    Coroutines.stopAll();
+    routines = [];
+  }
+}
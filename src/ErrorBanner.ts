@@ -0,0 +1,62 @@
+/**
+ * ErrorBanner - Dev overlay across the top of the `ui` layer showing the
+ * latest loop callback error. Click it to dismiss until the next error.
+ */
+
+import { Container, Graphics, Text } from 'pixi.js';
+import type { LoopError } from './CallbackList';
+
+const PADDING = 8;
+
+export class ErrorBanner {
+  private container = new Container();
+  private background = new Graphics();
+  private text: Text;
+  private width: number;
+
+  constructor(parent: Container, width: number) {
+    this.width = width;
+    this.text = new Text({
+      text: '',
+      style: {
+        fontFamily: 'monospace',
+        fontSize: 12,
+        fill: 0xfef2f2,
+        wordWrap: true,
+        wordWrapWidth: width - PADDING * 2,
+      },
+    });
+    this.text.position.set(PADDING, PADDING);
+
+    this.container.zIndex = Number.MAX_SAFE_INTEGER;
+    this.container.eventMode = 'static';
+    this.container.cursor = 'pointer';
+    this.container.on('pointertap', () => { this.container.visible = false; });
+    this.container.addChild(this.background, this.text);
+    parent.addChild(this.container);
+  }
+
+  show(info: LoopError): void {
+    const message = info.error instanceof Error ? info.error.message : String(info.error);
+    const status = info.disabled ? ' — disabled' : '';
+    this.text.text = `${info.hook} · ${info.label} threw (×${info.failures})${status}\n${message}`;
+    this.container.visible = true;
+    this.draw();
+  }
+
+  resize(width: number): void {
+    this.width = width;
+    this.text.style.wordWrapWidth = width - PADDING * 2;
+    this.draw();
+  }
+
+  destroy(): void {
+    this.container.destroy({ children: true });
+  }
+
+  private draw(): void {
+    this.background.clear();
+    this.background.rect(0, 0, this.width, this.text.height + PADDING * 2);
+    this.background.fill({ color: 0x7f1d1d, alpha: 0.92 });
+  }
+}
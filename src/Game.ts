@@ -1,20 +1,61 @@
 /**
  * Game - Central runtime class for bonkjs.
  * Creates a PixiJS Application, provides fixed/variable timestep game loop.
+ * Headless mode skips PixiJS and input setup so the loop can be stepped
+ * manually in Node (unit tests, server-side simulation).
  */
 
-import { Application, Container } from 'pixi.js';
+import { Application, Container, UPDATE_PRIORITY } from 'pixi.js';
 import { Time } from './Time';
 import { Input } from './Input';
+import { Timers } from './Timers';
+import { Tweens } from './Tweens';
+import { Coroutines } from './Coroutines';
+import { CallbackList, type CallbackOptions, type LoopError } from './CallbackList';
+import { Profiler, type LoopProfile, type ProfilerOptions } from './Profiler';
+import { ErrorBanner } from './ErrorBanner';
+import { setErrorHandler } from './scheduling';
+
+/** Loop options shared by Game.init() and Game.initHeadless() */
+export interface GameTimestepConfig {
+  /** Fixed update rate in Hz. Default: 60 */
+  fixedRate?: number;
+  /** Largest frame delta (seconds) fed to the loop; longer frames are clamped. Default: 0.25 */
+  maxDeltaTime?: number;
+  /** Most fixed steps run in a single frame; the rest are dropped. Default: unlimited */
+  maxFixedSteps?: number;
+  /** Remove a loop callback after it has thrown this many times. Default: never */
+  maxCallbackFailures?: number;
+}
+
+/**
+ * How the canvas responds to its parent resizing.
+ * - `none` — fixed canvas size, no resize handling
+ * - `letterbox` — fixed virtual resolution, scaled to fit with bars
+ * - `integer` — like letterbox, but only whole-number scales (pixel art)
+ * - `expand` — scaled like letterbox, then the virtual size grows on one axis to fill the bars
+ * - `fill` — virtual size matches the parent 1:1
+ */
+export type ScaleMode = 'none' | 'letterbox' | 'integer' | 'expand' | 'fill';
 
 /** Configuration for Game.init() */
-export interface GameInitConfig {
+export interface GameInitConfig extends GameTimestepConfig {
+  /** Canvas width — the virtual (design) width when a scaleMode is set */
   width?: number;
+  /** Canvas height — the virtual (design) height when a scaleMode is set */
   height?: number;
   backgroundColor?: number;
   antialias?: boolean;
   resolution?: number;
   preference?: 'webgl' | 'webgpu';
+  /** Pause while the tab is hidden or the window is blurred, resume on return. Default: false */
+  pauseOnBlur?: boolean;
+  /** How the canvas follows its parent's size. Default: 'none' */
+  scaleMode?: ScaleMode;
+  /** Element whose size the canvas tracks when scaleMode is set. Default: the window */
+  parent?: HTMLElement;
+  /** Show loop callback errors in a banner on the ui layer — pass `import.meta.env.DEV` for dev builds. Default: false */
+  errorBanner?: boolean;
 }
 
 /** Result of Game.init() — raw PixiJS objects */
@@ -25,30 +66,87 @@ export interface GameInitResult {
   ui: Container;
 }
 
+/** Configuration for Game.initHeadless() */
+export interface GameHeadlessConfig extends GameTimestepConfig {
+  /** Virtual width reported by game.width (Camera/TouchControls sizing). Default: 800 */
+  width?: number;
+  /** Virtual height reported by game.height. Default: 600 */
+  height?: number;
+}
+
+/** Result of Game.initHeadless() — detached containers, nothing is rendered */
+export interface GameHeadlessResult {
+  world: Container;
+  ui: Container;
+}
+
 type UpdateCallback = () => void;
+type StepsDroppedCallback = (dropped: number) => void;
+type FocusCallback = () => void;
+type ResizeCallback = (width: number, height: number) => void;
+type ErrorCallback = (error: LoopError) => void;
 
 export class Game {
   app: Application | null = null;
   world: Container | null = null;
   ui: Container | null = null;
 
-  private fixedUpdateCallbacks: UpdateCallback[] = [];
-  private updateCallbacks: UpdateCallback[] = [];
-  private lateUpdateCallbacks: UpdateCallback[] = [];
+  private preUpdateCallbacks = new CallbackList('preUpdate');
+  private fixedUpdateCallbacks = new CallbackList('fixedUpdate');
+  private updateCallbacks = new CallbackList('update');
+  private lateUpdateCallbacks = new CallbackList('lateUpdate');
+  private postRenderCallbacks = new CallbackList('postRender');
+  private callbackLists = [
+    this.preUpdateCallbacks,
+    this.fixedUpdateCallbacks,
+    this.updateCallbacks,
+    this.lateUpdateCallbacks,
+    this.postRenderCallbacks,
+  ];
+  private stepsDroppedCallbacks: StepsDroppedCallback[] = [];
+  private focusLostCallbacks: FocusCallback[] = [];
+  private focusGainedCallbacks: FocusCallback[] = [];
+  private resizeCallbacks: ResizeCallback[] = [];
+  private errorCallbacks: ErrorCallback[] = [];
 
   private running = false;
   private paused = false;
+  private headless = false;
+  private pauseOnBlur = false;
+  private autoPaused = false;
+  private focused = true;
+  private scaleMode: ScaleMode = 'none';
+  private parent: HTMLElement | null = null;
+  private resizeObserver: ResizeObserver | null = null;
+  private designWidth = 800;
+  private designHeight = 600;
+  private viewWidth = 800;
+  private viewHeight = 600;
   private animFrameId: number | null = null;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
   private lastTime = 0;
   private fixedAccumulator = 0;
-  private readonly maxDeltaTime = 0.25;
+  private maxDeltaTime = 0.25;
+  private maxFixedSteps = Infinity;
+  private profiler: Profiler | null = null;
+  private errorBanner: ErrorBanner | null = null;
+  private showErrorBanner = false;
+
+  constructor() {
+    for (const list of this.callbackLists) list.onError = this.reportError;
+    setErrorHandler(this.reportError);
+  }
 
   /** Initialize PixiJS and input. Returns canvas + raw containers. */
   async init(config?: GameInitConfig): Promise<GameInitResult> {
+    this.configureLoop(config);
+    this.designWidth = this.viewWidth = config?.width ?? 800;
+    this.designHeight = this.viewHeight = config?.height ?? 600;
+
     const app = new Application();
     await app.init({
-      width: config?.width ?? 800,
-      height: config?.height ?? 600,
+      width: this.designWidth,
+      height: this.designHeight,
       backgroundColor: config?.backgroundColor,
       antialias: config?.antialias ?? true,
       resolution: config?.resolution ?? window.devicePixelRatio,
@@ -68,40 +166,184 @@ export class Game {
 
     Input.initialize(canvas);
 
+    this.showErrorBanner = config?.errorBanner ?? false;
+
+    this.pauseOnBlur = config?.pauseOnBlur ?? false;
+    this.focused = !document.hidden && document.hasFocus();
+    document.addEventListener('visibilitychange', this.onFocusChange);
+    window.addEventListener('blur', this.onFocusChange);
+    window.addEventListener('focus', this.onFocusChange);
+
+    // PixiJS renders from its ticker at LOW priority; UTILITY runs right after
+    app.ticker.add(this.postRender, this, UPDATE_PRIORITY.UTILITY);
+
     this.app = app;
     this.world = world;
     this.ui = ui;
 
+    this.scaleMode = config?.scaleMode ?? 'none';
+    if (this.scaleMode !== 'none') {
+      this.parent = config?.parent ?? null;
+      if (this.parent) {
+        this.resizeObserver = new ResizeObserver(this.layout);
+        this.resizeObserver.observe(this.parent);
+      } else {
+        window.addEventListener('resize', this.layout);
+      }
+      this.layout();
+    }
+
     return { canvas, app, world, ui };
   }
 
-  /** Register a callback for fixed-timestep updates (1/60s). */
-  onFixedUpdate(cb: UpdateCallback): () => void {
-    this.fixedUpdateCallbacks.push(cb);
+  /**
+   * Initialize without PixiJS rendering or DOM input listeners.
+   * `world` and `ui` are plain containers so game code can still build its
+   * scene graph. Drive the loop with step()/stepFixed(), or start() to run
+   * on a timer instead of requestAnimationFrame.
+   */
+  initHeadless(config?: GameHeadlessConfig): GameHeadlessResult {
+    this.configureLoop(config);
+    this.headless = true;
+    this.designWidth = this.viewWidth = config?.width ?? 800;
+    this.designHeight = this.viewHeight = config?.height ?? 600;
+
+    const world = new Container();
+    world.sortableChildren = true;
+
+    const ui = new Container();
+    ui.sortableChildren = true;
+
+    this.world = world;
+    this.ui = ui;
+
+    return { world, ui };
+  }
+
+  /**
+   * Virtual width — the coordinate space of `world` and `ui`. Equals the
+   * configured width except in 'expand' and 'fill' scale modes.
+   */
+  get width(): number {
+    return this.viewWidth;
+  }
+
+  /** Virtual height — see `width`. */
+  get height(): number {
+    return this.viewHeight;
+  }
+
+  /**
+   * Register a callback fired when the virtual size changes (scaleMode
+   * 'expand' or 'fill'). Camera and TouchControls subscribe automatically
+   * when given `game` in their config.
+   */
+  onResize(cb: ResizeCallback): () => void {
+    this.resizeCallbacks.push(cb);
     return () => {
-      const i = this.fixedUpdateCallbacks.indexOf(cb);
-      if (i !== -1) this.fixedUpdateCallbacks.splice(i, 1);
+      const i = this.resizeCallbacks.indexOf(cb);
+      if (i !== -1) this.resizeCallbacks.splice(i, 1);
     };
   }
 
+  /** Whether the game was initialized with initHeadless(). */
+  get isHeadless(): boolean {
+    return this.headless;
+  }
+
+  /**
+   * Interpolation alpha (0–1) — how far the current render frame sits between
+   * the last fixed step and the next one. Read it in onUpdate/onLateUpdate to
+   * blend previous and current fixed-step state (see Interpolator).
+   */
+  get alpha(): number {
+    return Math.min(1, this.fixedAccumulator / Time.fixedDeltaTime);
+  }
+
+  // Every loop phase runs its callbacks by phase/priority (lower first, registration
+  // order breaks ties). Registering or unsubscribing mid-frame is safe: removed
+  // callbacks stop immediately, new ones start on the next pass.
+
+  /** Register a callback that runs once per frame before any fixed steps. */
+  onPreUpdate(cb: UpdateCallback, options?: CallbackOptions): () => void {
+    return this.preUpdateCallbacks.add(cb, options);
+  }
+
+  /** Register a callback for fixed-timestep updates (Time.fixedDeltaTime, 1/60s by default). */
+  onFixedUpdate(cb: UpdateCallback, options?: CallbackOptions): () => void {
+    return this.fixedUpdateCallbacks.add(cb, options);
+  }
+
   /** Register a callback for per-frame updates. */
-  onUpdate(cb: UpdateCallback): () => void {
-    this.updateCallbacks.push(cb);
+  onUpdate(cb: UpdateCallback, options?: CallbackOptions): () => void {
+    return this.updateCallbacks.add(cb, options);
+  }
+
+  /** Register a callback for late updates (after main update). */
+  onLateUpdate(cb: UpdateCallback, options?: CallbackOptions): () => void {
+    return this.lateUpdateCallbacks.add(cb, options);
+  }
+
+  /**
+   * Register a callback that runs after PixiJS has rendered the frame
+   * (stats overlays, screenshot capture). Headless games run it at the end of each step.
+   */
+  onPostRender(cb: UpdateCallback, options?: CallbackOptions): () => void {
+    return this.postRenderCallbacks.add(cb, options);
+  }
+
+  /**
+   * Register a callback fired when a frame needed more fixed steps than
+   * maxFixedSteps allows. Receives the number of steps skipped — a sustained
+   * stream of these means the simulation can't keep up (spiral of death).
+   */
+  onFixedStepsDropped(cb: StepsDroppedCallback): () => void {
+    this.stepsDroppedCallbacks.push(cb);
     return () => {
-      const i = this.updateCallbacks.indexOf(cb);
-      if (i !== -1) this.updateCallbacks.splice(i, 1);
+      const i = this.stepsDroppedCallbacks.indexOf(cb);
+      if (i !== -1) this.stepsDroppedCallbacks.splice(i, 1);
     };
   }
 
-  /** Register a callback for late updates (after main update). */
-  onLateUpdate(cb: UpdateCallback): () => void {
-    this.lateUpdateCallbacks.push(cb);
+  /**
+   * Register a callback fired when the tab is hidden or the window loses focus.
+   * Held keys and mouse buttons have already been released when it runs.
+   */
+  onFocusLost(cb: FocusCallback): () => void {
+    this.focusLostCallbacks.push(cb);
     return () => {
-      const i = this.lateUpdateCallbacks.indexOf(cb);
-      if (i !== -1) this.lateUpdateCallbacks.splice(i, 1);
+      const i = this.focusLostCallbacks.indexOf(cb);
+      if (i !== -1) this.focusLostCallbacks.splice(i, 1);
     };
   }
 
+  /** Register a callback fired when the tab is visible and focused again. */
+  onFocusGained(cb: FocusCallback): () => void {
+    this.focusGainedCallbacks.push(cb);
+    return () => {
+      const i = this.focusGainedCallbacks.indexOf(cb);
+      if (i !== -1) this.focusGainedCallbacks.splice(i, 1);
+    };
+  }
+
+  /**
+   * Register a callback fired when a loop callback, timer, tween or coroutine
+   * throws. The frame carries on with the next callback either way. Without
+   * any listeners, errors are logged with console.error.
+   */
+  onError(cb: ErrorCallback): () => void {
+    this.errorCallbacks.push(cb);
+    return () => {
+      const i = this.errorCallbacks.indexOf(cb);
+      if (i !== -1) this.errorCallbacks.splice(i, 1);
+    };
+  }
+
+  /** Whether the page is visible and the window focused. Always true when headless. */
+  get hasFocus(): boolean {
+    return this.focused;
+  }
+
   /** Start the game loop. */
   start(): void {
     if (this.running) return;
@@ -119,61 +361,292 @@ export class Game {
       cancelAnimationFrame(this.animFrameId);
       this.animFrameId = null;
     }
+    if (this.timeoutId !== null) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+
+  /**
+   * Advance the loop by one frame of `dt` seconds — exactly what a browser
+   * frame does (Time, fixed steps, update, late update, Input.update()),
+   * with `dt` in place of the measured frame time.
+   */
+  step(dt: number): void {
+    this.tick(dt);
+  }
+
+  /**
+   * Advance `count` frames of exactly Time.fixedDeltaTime unscaled seconds
+   * each. Fixed steps accrue from scaled time, so that is one fixed step per
+   * frame only at timeScale 1 with no hit-stop or ramp — fewer in slow-mo,
+   * none while paused.
+   */
+  stepFixed(count = 1): void {
+    for (let i = 0; i < count; i++) {
+      this.tick(Time.fixedDeltaTime);
+    }
   }
 
-  /** Pause the game (loop continues but updates are skipped). */
+  /**
+   * Pause the game. The loop keeps running: Time.deltaTime drops to zero,
+   * fixed steps stop, and only callbacks registered with `runWhenPaused`
+   * run. Time.unscaledDeltaTime keeps ticking and Input edges still clear
+   * every frame, so pause menus stay responsive. An explicit pause also
+   * overrides pauseOnBlur, so regaining focus won't resume it.
+   */
   pause(): void {
     this.paused = true;
+    this.autoPaused = false;
   }
 
   /** Resume a paused game. */
   resume(): void {
+    this.autoPaused = false;
     if (this.paused) {
       this.paused = false;
       this.lastTime = performance.now();
     }
   }
 
+  /** Whether the game is paused. */
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Turn loop profiling on or off. While on, every registered callback is
+   * timed each frame. Re-enabling starts a fresh window.
+   */
+  setProfiling(enabled: boolean, options?: ProfilerOptions): void {
+    this.profiler = enabled ? new Profiler(options) : null;
+    for (const list of this.callbackLists) {
+      list.profiling = enabled;
+      list.resetProfile();
+    }
+  }
+
+  /** Whether loop profiling is on. */
+  get isProfiling(): boolean {
+    return this.profiler !== null;
+  }
+
+  /** Timing snapshot of recent frames, or null when profiling is off. */
+  getProfile(): LoopProfile | null {
+    if (!this.profiler) return null;
+    return this.profiler.snapshot(this.callbackLists.flatMap((list) => list.profile()));
+  }
+
   /** Clean up all resources. */
   destroy(): void {
     this.stop();
     Input.destroy();
+    Timers.clear();
+    Tweens.clear();
+    Coroutines.clear();
+    setErrorHandler(null);
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    if (this.app) {
+      window.removeEventListener('resize', this.layout);
+      document.removeEventListener('visibilitychange', this.onFocusChange);
+      window.removeEventListener('blur', this.onFocusChange);
+      window.removeEventListener('focus', this.onFocusChange);
+    }
+    this.errorBanner?.destroy();
+    this.errorBanner = null;
+    this.app?.ticker.remove(this.postRender, this);
     this.app?.destroy(true);
+    if (this.headless) {
+      this.world?.destroy({ children: true });
+      this.ui?.destroy({ children: true });
+    }
     this.app = null;
     this.world = null;
     this.ui = null;
   }
 
+  private configureLoop(config?: GameInitConfig): void {
+    const fixedRate = config?.fixedRate ?? 60;
+    if (fixedRate <= 0) throw new Error(`Game: fixedRate must be positive (got ${fixedRate})`);
+    Time.fixedDeltaTime = 1 / fixedRate;
+    this.maxDeltaTime = config?.maxDeltaTime ?? 0.25;
+    this.maxFixedSteps = config?.maxFixedSteps ?? Infinity;
+    for (const list of this.callbackLists) list.maxFailures = config?.maxCallbackFailures ?? Infinity;
+  }
+
+  /** Fit the canvas to its parent according to scaleMode. */
+  private layout = (): void => {
+    const app = this.app;
+    if (!app) return;
+
+    const parentWidth = this.parent ? this.parent.clientWidth : window.innerWidth;
+    const parentHeight = this.parent ? this.parent.clientHeight : window.innerHeight;
+    if (parentWidth <= 0 || parentHeight <= 0) return; // detached or collapsed parent
+
+    let scale = Math.min(parentWidth / this.designWidth, parentHeight / this.designHeight);
+    let width = this.designWidth;
+    let height = this.designHeight;
+
+    switch (this.scaleMode) {
+      case 'integer':
+        // Whole-number scales only, unless the parent is smaller than the design size
+        if (scale >= 1) scale = Math.floor(scale);
+        break;
+      case 'expand':
+        width = parentWidth / scale;
+        height = parentHeight / scale;
+        break;
+      case 'fill':
+        scale = 1;
+        width = parentWidth;
+        height = parentHeight;
+        break;
+    }
+
+    // Render at the displayed size and scale the stage, so nothing is upscaled by CSS
+    const displayWidth = Math.round(width * scale);
+    const displayHeight = Math.round(height * scale);
+    app.renderer.resize(displayWidth, displayHeight);
+    app.stage.scale.set(scale);
+
+    // Center in the parent — bars appear around letterboxed/integer canvases
+    const canvas = app.canvas as HTMLCanvasElement;
+    canvas.style.display = 'block';
+    canvas.style.marginLeft = `${Math.floor((parentWidth - displayWidth) / 2)}px`;
+    canvas.style.marginTop = `${Math.floor((parentHeight - displayHeight) / 2)}px`;
+
+    Input.setVirtualResolution({ width, height });
+
+    if (width !== this.viewWidth || height !== this.viewHeight) {
+      this.viewWidth = width;
+      this.viewHeight = height;
+      this.errorBanner?.resize(width);
+      for (const cb of this.resizeCallbacks) cb(width, height);
+    }
+  };
+
+  private onFocusChange = (): void => {
+    const focused = !document.hidden && document.hasFocus();
+    if (focused === this.focused) return;
+    this.focused = focused;
+
+    if (!focused) {
+      // keyup/mouseup won't arrive for anything held right now
+      Input.clearPhysicalInput();
+      if (this.pauseOnBlur && !this.paused) {
+        this.pause();
+        this.autoPaused = true;
+      }
+      for (const cb of this.focusLostCallbacks) cb();
+    } else {
+      // rAF stops while hidden — don't feed the gap into the next frame
+      this.lastTime = performance.now();
+      if (this.autoPaused) this.resume();
+      for (const cb of this.focusGainedCallbacks) cb();
+    }
+  };
+
+  private postRender(): void {
+    if (this.running) this.postRenderCallbacks.run(this.paused);
+  }
+
   private loop = (): void => {
     if (!this.running) return;
 
     const now = performance.now();
-    let dt = (now - this.lastTime) / 1000;
+    const dt = (now - this.lastTime) / 1000;
     this.lastTime = now;
 
+    try {
+      this.tick(dt);
+    } finally {
+      // Reschedule even if an onError listener threw so the game never freezes
+      if (this.running) {
+        if (this.headless) {
+          // No display to sync to — tick at the fixed rate
+          this.timeoutId = setTimeout(this.loop, Time.fixedDeltaTime * 1000);
+        } else {
+          this.animFrameId = requestAnimationFrame(this.loop);
+        }
+      }
+    }
+  };
+
+  private reportError = (info: LoopError): void => {
+    if (this.errorCallbacks.length === 0) {
+      const status = info.disabled ? ' (disabled)' : '';
+      console.error(`[bonkjs] ${info.hook} callback "${info.label}" threw${status}:`, info.error);
+    }
+    for (const cb of this.errorCallbacks) {
+      // A throwing listener must not break the isolation it is reporting on
+      try {
+        cb(info);
+      } catch (error) {
+        console.error('[bonkjs] onError listener threw:', error);
+      }
+    }
+    if (this.showErrorBanner && this.ui) {
+      this.errorBanner ??= new ErrorBanner(this.ui, this.viewWidth);
+      this.errorBanner.show(info);
+    }
+  };
+
+  private tick(dt: number): void {
+    const profiler = this.profiler;
+    const tickStart = profiler ? performance.now() : 0;
+    const frameDt = dt;
+    let steps = 0;
+
     // Clamp to prevent spiral of death
     if (dt > this.maxDeltaTime) dt = this.maxDeltaTime;
 
-    if (!this.paused) {
-      Time.update(dt);
+    const paused = this.paused;
+    Time.update(dt, paused, frameDt);
+
+    this.preUpdateCallbacks.run(paused);
 
-      // Fixed timestep loop
-      this.fixedAccumulator += dt;
+    // Fixed timestep loop — steps accrue from scaled time, so timeScale and
+    // hit-stops slow or freeze them, and none accrue while paused
+    if (!paused) {
+      this.fixedAccumulator += Time.deltaTime;
       while (this.fixedAccumulator >= Time.fixedDeltaTime) {
+        if (steps >= this.maxFixedSteps) {
+          // Drop whole steps but keep the fractional remainder for interpolation
+          const dropped = Math.floor(this.fixedAccumulator / Time.fixedDeltaTime);
+          this.fixedAccumulator -= dropped * Time.fixedDeltaTime;
+          for (const cb of this.stepsDroppedCallbacks) cb(dropped);
+          break;
+        }
         this.fixedAccumulator -= Time.fixedDeltaTime;
-        for (const cb of this.fixedUpdateCallbacks) cb();
+        Timers.fixedUpdate();
+        Tweens.fixedUpdate();
+        Coroutines.fixedUpdate();
+        this.fixedUpdateCallbacks.run();
+        steps++;
       }
+    }
 
-      // Variable timestep update
-      for (const cb of this.updateCallbacks) cb();
+    // Timers, tweens and coroutines run before update callbacks see the frame
+    Timers.update();
+    Tweens.update();
+    Coroutines.update(paused);
 
-      // Late update
-      for (const cb of this.lateUpdateCallbacks) cb();
+    // Variable timestep update
+    this.updateCallbacks.run(paused);
 
-      // Clear per-frame input state
-      Input.update();
-    }
+    // Late update
+    this.lateUpdateCallbacks.run(paused);
 
-    this.animFrameId = requestAnimationFrame(this.loop);
-  };
+    // Clear per-frame input state — even while paused, so edges don't pile up
+    Input.update();
+
+    // Nothing renders headless — post-render runs at the end of the step
+    if (this.headless) this.postRenderCallbacks.run(paused);
+
+    if (profiler) {
+      profiler.recordFrame(frameDt * 1000, performance.now() - tickStart, steps);
+      for (const list of this.callbackLists) list.endFrame(profiler.window);
+    }
+  }
 }
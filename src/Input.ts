@@ -106,6 +106,9 @@ export class Input {
   /** Current mouse position relative to canvas */
   private static _mousePosition: Vector2 = [0, 0];
 
+  /** Virtual resolution the canvas maps to, or null for CSS pixels */
+  private static virtualResolution: { width: number; height: number } | null = null;
+
   // ==================== Axis State ====================
 
   /** Smoothed axis values */
@@ -158,10 +161,16 @@ export class Input {
   private static onMouseMove = (event: MouseEvent): void => {
     if (Input.canvas) {
       const rect = Input.canvas.getBoundingClientRect();
-      Input._mousePosition = [
-        event.clientX - rect.left,
-        event.clientY - rect.top,
-      ];
+      const res = Input.virtualResolution;
+      Input._mousePosition = res && rect.width > 0 && rect.height > 0
+        ? [
+          ((event.clientX - rect.left) / rect.width) * res.width,
+          ((event.clientY - rect.top) / rect.height) * res.height,
+        ]
+        : [
+          event.clientX - rect.left,
+          event.clientY - rect.top,
+        ];
     } else {
       Input._mousePosition = [event.clientX, event.clientY];
     }
@@ -248,6 +257,7 @@ export class Input {
     this.inputModeListeners.length = 0;
     this._inputMode = 'keyboard';
     this.canvas = null;
+    this.virtualResolution = null;
     this.initialized = false;
     console.log('Input system destroyed');
   }
@@ -382,7 +392,16 @@ export class Input {
   // ==================== Mouse API ====================
 
   /**
-   * Current mouse position relative to canvas (or window if no canvas).
+   * Map mouse positions to a virtual resolution instead of CSS pixels.
+   * Game sets this automatically when a scaleMode is active. Pass null to reset.
+   */
+  static setVirtualResolution(resolution: { width: number; height: number } | null): void {
+    this.virtualResolution = resolution ? { ...resolution } : null;
+  }
+
+  /**
+   * Current mouse position relative to canvas (or window if no canvas),
+   * in virtual pixels when a virtual resolution is set.
    */
   static get mousePosition(): Vector2 {
     return [...this._mousePosition] as Vector2;
@@ -447,6 +466,24 @@ export class Input {
     Input.virtualKeysHeld.clear();
   }
 
+  /**
+   * Release all physical keyboard keys and mouse buttons, respecting virtual key state.
+   * Used when the window loses focus — keyup/mouseup never arrive for keys held at that moment.
+   */
+  static clearPhysicalInput(): void {
+    for (const code of Input.physicalKeysHeld) {
+      if (!Input.virtualKeysHeld.has(code)) {
+        Input.keysHeld.delete(code);
+        Input.keysUp.add(code);
+      }
+    }
+    Input.physicalKeysHeld.clear();
+    for (const button of Input.mouseButtonsHeld) {
+      Input.mouseButtonsUp.add(button);
+    }
+    Input.mouseButtonsHeld.clear();
+  }
+
   /**
    * Check if a virtual key is currently held.
    */
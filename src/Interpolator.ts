@@ -0,0 +1,94 @@
+/**
+ * Interpolator - Smooths fixed-step positions across render frames.
+ * Snapshots previous/current state after every fixed update and lerps
+ * between them by Game.alpha each render frame.
+ */
+
+import type { Container } from 'pixi.js';
+import type { Game } from './Game';
+import type { Vector2 } from './types';
+
+interface InterpolatedTrack {
+  read: () => Vector2;
+  apply: (pos: Vector2) => void;
+  previous: Vector2;
+  current: Vector2;
+}
+
+export class Interpolator {
+  private game: Game;
+  private tracks: InterpolatedTrack[] = [];
+  private unsubscribers: Array<() => void> = [];
+
+  /**
+   * Hooks into the game's fixed and variable updates in the 'animation' phase,
+   * so snapshots see post-simulation state and positions are written before
+   * 'camera' callbacks read them.
+   */
+  constructor(game: Game) {
+    this.game = game;
+    this.unsubscribers.push(
+      game.onFixedUpdate(() => this.capture(), { phase: 'animation' }),
+      game.onUpdate(() => this.apply(), { phase: 'animation' }),
+    );
+  }
+
+  /**
+   * Track a fixed-step position. `read` returns the simulation position,
+   * `apply` receives the interpolated position every render frame.
+   * Returns a function that stops tracking.
+   */
+  add(read: () => Vector2, apply: (pos: Vector2) => void): () => void {
+    const pos = read();
+    const track: InterpolatedTrack = {
+      read,
+      apply,
+      previous: [pos[0], pos[1]],
+      current: [pos[0], pos[1]],
+    };
+    this.tracks.push(track);
+    return () => {
+      const i = this.tracks.indexOf(track);
+      if (i !== -1) this.tracks.splice(i, 1);
+    };
+  }
+
+  /** Track a fixed-step position and write the interpolated result to a container. */
+  addContainer(container: Container, read: () => Vector2): () => void {
+    return this.add(read, (pos) => container.position.set(pos[0], pos[1]));
+  }
+
+  /** Discard history so tracked objects jump straight to their current position (teleports, respawns). */
+  snap(): void {
+    for (const track of this.tracks) {
+      const pos = track.read();
+      track.previous = [pos[0], pos[1]];
+      track.current = [pos[0], pos[1]];
+    }
+  }
+
+  /** Stop tracking everything and unhook from the game loop. */
+  destroy(): void {
+    for (const unsub of this.unsubscribers) unsub();
+    this.unsubscribers.length = 0;
+    this.tracks.length = 0;
+  }
+
+  private capture(): void {
+    for (const track of this.tracks) {
+      const pos = track.read();
+      track.previous = track.current;
+      track.current = [pos[0], pos[1]];
+    }
+  }
+
+  private apply(): void {
+    const t = this.game.alpha;
+    for (const track of this.tracks) {
+      track.apply([
+        track.previous[0] + (track.current[0] - track.previous[0]) * t,
+        track.previous[1] + (track.current[1] - track.previous[1]) * t,
+      ]);
+    }
+  }
+}
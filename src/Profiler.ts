@@ -0,0 +1,100 @@
+/**
+ * Profiler - Frame and per-callback timing for the Game loop.
+ * Opt in with game.setProfiling(true), read with game.getProfile().
+ * All times are milliseconds over a rolling window of recent frames.
+ */
+
+import { RingBuffer } from './RingBuffer';
+import type { LoopHook } from './CallbackList';
+
+/** Last/average/max of a timed quantity over the profiling window */
+export interface TimingStats {
+  last: number;
+  avg: number;
+  max: number;
+}
+
+/** Frame time distribution over the profiling window */
+export interface FrameTimingStats extends TimingStats {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/** Time one registered callback spent per frame (fixed callbacks sum every step in the frame) */
+export interface CallbackProfile extends TimingStats {
+  hook: LoopHook;
+  label: string;
+}
+
+/** Snapshot returned by game.getProfile() */
+export interface LoopProfile {
+  /** Frames in the window */
+  frames: number;
+  /** Time between frames, before maxDeltaTime clamping */
+  frameTime: FrameTimingStats;
+  /** Time spent inside the loop (callbacks + Input) per frame */
+  loopTime: TimingStats;
+  /** Fixed steps run per frame */
+  fixedSteps: TimingStats;
+  /** Frame budget used to count long frames */
+  budget: number;
+  /** Frames over budget since profiling was enabled */
+  longFrames: number;
+  /** Every registered callback, slowest average first */
+  callbacks: CallbackProfile[];
+}
+
+/** Options for game.setProfiling() */
+export interface ProfilerOptions {
+  /** Frames kept for averages and percentiles. Default: 240 */
+  window?: number;
+  /** Frame time (ms) above which a frame counts as long. Default: 1000 / 60 */
+  budget?: number;
+}
+
+export class Profiler {
+  readonly window: number;
+  readonly budget: number;
+  private frameTimes: RingBuffer;
+  private loopTimes: RingBuffer;
+  private fixedSteps: RingBuffer;
+  private longFrames = 0;
+
+  constructor(options?: ProfilerOptions) {
+    this.window = options?.window ?? 240;
+    this.budget = options?.budget ?? 1000 / 60;
+    this.frameTimes = new RingBuffer(this.window);
+    this.loopTimes = new RingBuffer(this.window);
+    this.fixedSteps = new RingBuffer(this.window);
+  }
+
+  /** Record one frame: elapsed time since the previous frame, time spent in the loop, and fixed steps run. */
+  recordFrame(frameMs: number, loopMs: number, steps: number): void {
+    this.frameTimes.push(frameMs);
+    this.loopTimes.push(loopMs);
+    this.fixedSteps.push(steps);
+    if (frameMs > this.budget) this.longFrames++;
+  }
+
+  snapshot(callbacks: CallbackProfile[]): LoopProfile {
+    return {
+      frames: this.frameTimes.length,
+      frameTime: {
+        ...Profiler.stats(this.frameTimes),
+        p50: this.frameTimes.percentile(50),
+        p95: this.frameTimes.percentile(95),
+        p99: this.frameTimes.percentile(99),
+      },
+      loopTime: Profiler.stats(this.loopTimes),
+      fixedSteps: Profiler.stats(this.fixedSteps),
+      budget: this.budget,
+      longFrames: this.longFrames,
+      callbacks: [...callbacks].sort((a, b) => b.avg - a.avg),
+    };
+  }
+
+  static stats(buffer: RingBuffer): TimingStats {
+    return { last: buffer.last(), avg: buffer.average(), max: buffer.max() };
+  }
+}
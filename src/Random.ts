@@ -0,0 +1,36 @@
+/**
+ * Random - Seedable pseudo-random numbers (mulberry32). The same seed gives
+ * the same sequence, so effects driven by it replay identically.
+ */
+
+export class Random {
+  private state = 0;
+
+  constructor(seed: number = Date.now()) {
+    this.seed(seed);
+  }
+
+  /** Restart the sequence from `seed`. */
+  seed(seed: number): void {
+    this.state = seed >>> 0;
+  }
+
+  /** Float in [0, 1). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Float in [min, max). */
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Integer in [min, max] inclusive. */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * RingBuffer - Fixed-capacity numeric history. Once full, each push
+ * overwrites the oldest sample. Used for frame and callback timing stats.
+ */
+
+export class RingBuffer {
+  private data: Float64Array;
+  private start = 0;
+  private count = 0;
+
+  constructor(capacity: number) {
+    this.data = new Float64Array(Math.max(1, Math.floor(capacity)));
+  }
+
+  /** Maximum number of samples kept. */
+  get capacity(): number {
+    return this.data.length;
+  }
+
+  /** Number of samples currently stored. */
+  get length(): number {
+    return this.count;
+  }
+
+  push(value: number): void {
+    const end = (this.start + this.count) % this.data.length;
+    this.data[end] = value;
+    if (this.count < this.data.length) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.data.length;
+    }
+  }
+
+  /** Sample by age: 0 = oldest. */
+  get(index: number): number {
+    return this.data[(this.start + index) % this.data.length];
+  }
+
+  /** Most recent sample, or 0 when empty. */
+  last(): number {
+    return this.count > 0 ? this.get(this.count - 1) : 0;
+  }
+
+  /** Samples ordered oldest → newest. */
+  toArray(): number[] {
+    const out = new Array<number>(this.count);
+    for (let i = 0; i < this.count; i++) out[i] = this.get(i);
+    return out;
+  }
+
+  average(): number {
+    if (this.count === 0) return 0;
+    let sum = 0;
+    for (let i = 0; i < this.count; i++) sum += this.get(i);
+    return sum / this.count;
+  }
+
+  min(): number {
+    if (this.count === 0) return 0;
+    let min = Infinity;
+    for (let i = 0; i < this.count; i++) min = Math.min(min, this.get(i));
+    return min;
+  }
+
+  max(): number {
+    if (this.count === 0) return 0;
+    let max = -Infinity;
+    for (let i = 0; i < this.count; i++) max = Math.max(max, this.get(i));
+    return max;
+  }
+
+  /** Nearest-rank percentile, `p` in 0–100. */
+  percentile(p: number): number {
+    if (this.count === 0) return 0;
+    const sorted = this.toArray().sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length) - 1;
+    return sorted[Math.max(0, Math.min(sorted.length - 1, rank))];
+  }
+
+  clear(): void {
+    this.start = 0;
+    this.count = 0;
+  }
+}
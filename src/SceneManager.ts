@@ -0,0 +1,311 @@
+/**
+ * SceneManager - Stack of game scenes routed from the Game loop.
+ * Each scene gets its own child containers under `world` and `ui`, torn down
+ * when the scene leaves the stack. Transitions draw on top of the `ui` layer.
+ */
+
+import { Container, Graphics } from 'pixi.js';
+import type { Game } from './Game';
+import { Time } from './Time';
+
+/** Containers and services handed to a scene when it enters the stack */
+export interface SceneContext {
+  game: Game;
+  manager: SceneManager;
+  /** Scene-owned child of the game's world container (camera space) */
+  world: Container;
+  /** Scene-owned child of the game's ui container (screen space) */
+  ui: Container;
+}
+
+/** A game scene. Every hook is optional — implement what the scene needs. */
+export interface Scene {
+  /** Keep scenes below this one updating while it is on top (HUDs, overlays). Default: false */
+  updateBelow?: boolean;
+  /** Hide scenes below this one while it is on top. Default: false */
+  hideBelow?: boolean;
+  /** Keep receiving update/lateUpdate while the game is paused via game.pause(). Default: false */
+  runWhenPaused?: boolean;
+
+  /** Added to the stack. Build display objects into ctx.world / ctx.ui. */
+  enter?(ctx: SceneContext): void;
+  /** Removed from the stack. Containers are destroyed right after this returns. */
+  exit?(): void;
+  /** Another scene was pushed on top and stopped this one from updating. */
+  pause?(): void;
+  /** The scene on top was popped and this one is updating again. */
+  resume?(): void;
+
+  fixedUpdate?(): void;
+  update?(): void;
+  lateUpdate?(): void;
+}
+
+/** Overlay drawn while switching scenes */
+export interface SceneTransition {
+  /** Seconds to cover the screen; revealing takes the same time. Runs on unscaled time. */
+  duration: number;
+  /** Draw the overlay. `progress` runs 0→1 while covering, then 1→0 while revealing. */
+  draw(gfx: Graphics, progress: number, width: number, height: number): void;
+}
+
+/** Built-in transitions */
+export const Transitions = {
+  /** Fade to a solid color and back. */
+  fade: (duration = 0.3, color = 0x000000): SceneTransition => ({
+    duration,
+    draw: (gfx, progress, width, height) => {
+      gfx.clear();
+      gfx.rect(0, 0, width, height);
+      gfx.fill({ color, alpha: progress });
+    },
+  }),
+
+  /** Slide a solid panel across the screen and back out the way it came. */
+  wipe: (duration = 0.4, color = 0x000000, direction: 'left' | 'right' | 'up' | 'down' = 'right'): SceneTransition => ({
+    duration,
+    draw: (gfx, progress, width, height) => {
+      gfx.clear();
+      if (progress <= 0) return;
+      switch (direction) {
+        case 'right': gfx.rect(0, 0, width * progress, height); break;
+        case 'left': gfx.rect(width * (1 - progress), 0, width * progress, height); break;
+        case 'down': gfx.rect(0, 0, width, height * progress); break;
+        case 'up': gfx.rect(0, height * (1 - progress), width, height * progress); break;
+      }
+      gfx.fill({ color });
+    },
+  }),
+};
+
+interface SceneEntry {
+  scene: Scene;
+  world: Container;
+  ui: Container;
+  /** Whether the scene is currently receiving loop callbacks */
+  active: boolean;
+  /** Whether pause() was called without a matching resume() */
+  paused: boolean;
+}
+
+interface PendingChange {
+  apply: () => void;
+  transition?: SceneTransition;
+  resolve: () => void;
+}
+
+interface RunningTransition extends PendingChange {
+  transition: SceneTransition;
+  elapsed: number;
+  phase: 'cover' | 'reveal';
+}
+
+export class SceneManager {
+  private readonly game: Game;
+  private readonly worldRoot: Container;
+  private readonly uiRoot: Container;
+  private readonly overlay: Graphics;
+  private stack: SceneEntry[] = [];
+  private queue: PendingChange[] = [];
+  private transition: RunningTransition | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(game: Game) {
+    if (!game.world || !game.ui) {
+      throw new Error('SceneManager: call game.init() before creating a SceneManager');
+    }
+    this.game = game;
+    this.worldRoot = game.world;
+    this.uiRoot = game.ui;
+
+    this.overlay = new Graphics();
+    this.overlay.zIndex = Number.MAX_SAFE_INTEGER;
+    this.overlay.visible = false;
+    this.uiRoot.addChild(this.overlay);
+
+    // Update hooks run while paused too; scenes that didn't opt in are filtered out
+    this.unsubscribers.push(
+      game.onFixedUpdate(() => {
+        for (const entry of this.activeEntries()) if (entry.active) entry.scene.fixedUpdate?.();
+      }),
+      game.onUpdate(() => {
+        this.advanceTransition(Time.unscaledDeltaTime);
+        for (const entry of this.activeEntries()) if (this.shouldUpdate(entry)) entry.scene.update?.();
+      }, { runWhenPaused: true }),
+      game.onLateUpdate(() => {
+        for (const entry of this.activeEntries()) if (this.shouldUpdate(entry)) entry.scene.lateUpdate?.();
+      }, { runWhenPaused: true }),
+    );
+  }
+
+  /** The scene on top of the stack, or null when empty. */
+  get current(): Scene | null {
+    return this.stack.length > 0 ? this.stack[this.stack.length - 1].scene : null;
+  }
+
+  /** Number of scenes on the stack. */
+  get size(): number {
+    return this.stack.length;
+  }
+
+  /** Whether a transition is currently covering or revealing the screen. */
+  get transitioning(): boolean {
+    return this.transition !== null;
+  }
+
+  /**
+   * Push a scene on top of the stack. Without a transition the change is
+   * immediate. Resolves once the change (and any reveal) has finished.
+   */
+  push(scene: Scene, transition?: SceneTransition): Promise<void> {
+    return this.request(() => this.pushNow(scene), transition);
+  }
+
+  /** Pop the top scene, resuming the one below. */
+  pop(transition?: SceneTransition): Promise<void> {
+    return this.request(() => this.popNow(), transition);
+  }
+
+  /** Replace the top scene (title → gameplay). */
+  replace(scene: Scene, transition?: SceneTransition): Promise<void> {
+    return this.request(() => {
+      this.popNow(false);
+      this.pushNow(scene);
+    }, transition);
+  }
+
+  /** Clear the whole stack and start over with a single scene (game over → title). */
+  set(scene: Scene, transition?: SceneTransition): Promise<void> {
+    return this.request(() => {
+      while (this.stack.length > 0) this.popNow(false);
+      this.pushNow(scene);
+    }, transition);
+  }
+
+  /** Exit every scene and unhook from the game loop. Pending changes are dropped; their promises resolve. */
+  destroy(): void {
+    for (const unsub of this.unsubscribers) unsub();
+    this.unsubscribers.length = 0;
+    while (this.stack.length > 0) this.popNow(false);
+    // Settle pending push/pop promises so awaiting code doesn't hang
+    const pending = [...this.queue];
+    if (this.transition) pending.unshift(this.transition);
+    this.queue.length = 0;
+    this.transition = null;
+    for (const change of pending) change.resolve();
+    this.overlay.destroy();
+  }
+
+  // ==================== Stack Changes ====================
+
+  private request(apply: () => void, transition?: SceneTransition): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push({ apply, transition, resolve });
+      if (!this.transition) this.processQueue();
+    });
+  }
+
+  private processQueue(): void {
+    while (!this.transition && this.queue.length > 0) {
+      const change = this.queue.shift()!;
+      if (!change.transition || change.transition.duration <= 0) {
+        change.apply();
+        change.resolve();
+        continue;
+      }
+      this.transition = { ...change, transition: change.transition, elapsed: 0, phase: 'cover' };
+      this.overlay.visible = true;
+      this.drawTransition(0);
+    }
+  }
+
+  private advanceTransition(dt: number): void {
+    const t = this.transition;
+    if (!t) return;
+
+    t.elapsed += dt;
+    const progress = Math.min(1, t.elapsed / t.transition.duration);
+
+    if (t.phase === 'cover') {
+      this.drawTransition(progress);
+      if (progress >= 1) {
+        // Screen is fully covered — swap scenes behind it. Reveal first, so a
+        // throwing enter/exit can't leave the swap repeating every frame
+        t.phase = 'reveal';
+        t.elapsed = 0;
+        t.apply();
+      }
+      return;
+    }
+
+    this.drawTransition(1 - progress);
+    if (progress >= 1) {
+      this.overlay.clear();
+      this.overlay.visible = false;
+      this.transition = null;
+      t.resolve();
+      this.processQueue();
+    }
+  }
+
+  private drawTransition(progress: number): void {
+    this.transition?.transition.draw(this.overlay, progress, this.game.width, this.game.height);
+  }
+
+  private pushNow(scene: Scene): void {
+    const world = new Container();
+    const ui = new Container();
+    this.worldRoot.addChild(world);
+    this.uiRoot.addChild(ui);
+
+    const entry: SceneEntry = { scene, world, ui, active: true, paused: false };
+    this.stack.push(entry);
+    // Pause the covered scene before the new one enters
+    this.refresh();
+    scene.enter?.({ game: this.game, manager: this, world, ui });
+  }
+
+  /** Pass refresh=false when another push follows, so the scene below isn't resumed and re-paused. */
+  private popNow(refresh = true): void {
+    const entry = this.stack.pop();
+    if (!entry) return;
+
+    entry.active = false;
+    entry.scene.exit?.();
+    entry.world.destroy({ children: true });
+    entry.ui.destroy({ children: true });
+    if (refresh) this.refresh();
+  }
+
+  /** Recompute which scenes update and which are visible, firing pause/resume on changes. */
+  private refresh(): void {
+    let updating = true;
+    let visible = true;
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const entry = this.stack[i];
+      entry.world.visible = visible;
+      entry.ui.visible = visible;
+
+      if (!updating && !entry.paused) {
+        entry.paused = true;
+        entry.scene.pause?.();
+      } else if (updating && entry.paused) {
+        entry.paused = false;
+        entry.scene.resume?.();
+      }
+      entry.active = updating;
+
+      updating = updating && (entry.scene.updateBelow ?? false);
+      visible = visible && !(entry.scene.hideBelow ?? false);
+    }
+  }
+
+  private shouldUpdate(entry: SceneEntry): boolean {
+    return entry.active && (!this.game.isPaused || (entry.scene.runWhenPaused ?? false));
+  }
+
+  /** Snapshot so scenes can push/pop mid-update; callers re-check `active` before each call. */
+  private activeEntries(): SceneEntry[] {
+    return this.stack.filter((entry) => entry.active);
+  }
+}
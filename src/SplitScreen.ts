@@ -0,0 +1,227 @@
+/**
+ * SplitScreen - Several cameras viewing the same world, each in its own
+ * viewport. The world is rendered once per view into a RenderTexture, using
+ * that view's camera transform, and shown as a sprite in the view's rect.
+ */
+
+import { Container, RenderTexture, Sprite, UPDATE_PRIORITY, type Application } from 'pixi.js';
+import { Camera, type CameraConfig } from './Camera';
+import type { Game } from './Game';
+import type { Vector2 } from './types';
+
+/** A view's area as fractions (0–1) of the game's virtual size */
+export interface SplitViewRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** SplitScreen configuration */
+export interface SplitScreenConfig {
+  /** Number of views (1–4) laid out automatically, or one rect per view */
+  views: number | SplitViewRect[];
+  /** How two views split the screen: 'vertical' puts them side by side. Default: 'vertical' */
+  direction?: 'vertical' | 'horizontal';
+  /** Pixels between views. Default: 2 */
+  gap?: number;
+  /** Camera settings shared by every view — each camera's viewport comes from its rect, and view i shakes with `shakeSeed + i` */
+  camera?: Omit<CameraConfig, 'viewport' | 'game'>;
+}
+
+/** Result of SplitScreen.screenToWorld() */
+export interface SplitScreenHit {
+  /** Index of the view under the point */
+  view: number;
+  camera: Camera;
+  /** World position under the point, as seen by that camera */
+  position: Vector2;
+}
+
+interface SplitView {
+  camera: Camera;
+  /** Never rendered — the camera writes its transform here, the split renders the world with it */
+  transform: Container;
+  texture: RenderTexture;
+  sprite: Sprite;
+  /** Pixel rect in virtual coordinates */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Automatic layouts by view count, as fractional rects */
+function layoutRects(count: number, direction: 'vertical' | 'horizontal'): SplitViewRect[] {
+  switch (count) {
+    case 1:
+      return [{ x: 0, y: 0, width: 1, height: 1 }];
+    case 2:
+      return direction === 'vertical'
+        ? [{ x: 0, y: 0, width: 0.5, height: 1 }, { x: 0.5, y: 0, width: 0.5, height: 1 }]
+        : [{ x: 0, y: 0, width: 1, height: 0.5 }, { x: 0, y: 0.5, width: 1, height: 0.5 }];
+    case 3:
+      return [
+        { x: 0, y: 0, width: 1, height: 0.5 },
+        { x: 0, y: 0.5, width: 0.5, height: 0.5 },
+        { x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+      ];
+    case 4:
+      return [
+        { x: 0, y: 0, width: 0.5, height: 0.5 },
+        { x: 0.5, y: 0, width: 0.5, height: 0.5 },
+        { x: 0, y: 0.5, width: 0.5, height: 0.5 },
+        { x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+      ];
+    default:
+      throw new Error(`SplitScreen: automatic layout supports 1–4 views (got ${count}) — pass rects instead`);
+  }
+}
+
+export class SplitScreen {
+  /** One camera per view, in view order */
+  readonly cameras: Camera[];
+
+  private app: Application;
+  private world: Container;
+  private game: Game;
+  /** Holds the view sprites, in the world's old place on the stage */
+  private container: Container;
+  private views: SplitView[];
+  private rects: SplitViewRect[];
+  private gap: number;
+  /** Texture resolution of the last layout */
+  private resolution = 0;
+  private unsubscribeResize: () => void;
+
+  constructor(game: Game, config: SplitScreenConfig) {
+    if (!game.app || !game.world) throw new Error('SplitScreen: needs a game started with init() — headless games have no renderer');
+    this.game = game;
+    this.app = game.app;
+    this.world = game.world;
+    this.gap = config.gap ?? 2;
+    this.rects = typeof config.views === 'number'
+      ? layoutRects(config.views, config.direction ?? 'vertical')
+      : config.views.map((r) => ({ ...r }));
+
+    // Swap the world out of the stage for the view sprites
+    this.container = new Container();
+    const parent = this.world.parent;
+    if (parent) {
+      parent.addChildAt(this.container, parent.getChildIndex(this.world));
+      parent.removeChild(this.world);
+    }
+
+    // Seed each camera apart so views shaking together don't move in lockstep
+    const seed = config.camera?.shakeSeed ?? Date.now();
+    this.views = this.rects.map((_, i) => {
+      const transform = new Container();
+      const texture = RenderTexture.create({ width: 1, height: 1 });
+      const sprite = new Sprite(texture);
+      this.container.addChild(sprite);
+      const camera = new Camera(transform, { ...config.camera, shakeSeed: seed + i, viewport: { width: 1, height: 1 } });
+      return { camera, transform, texture, sprite, x: 0, y: 0, width: 1, height: 1 };
+    });
+    this.cameras = this.views.map((v) => v.camera);
+    this.layout();
+
+    this.unsubscribeResize = game.onResize(() => this.layout());
+    // PixiJS renders from its ticker at LOW priority — fill the textures just before
+    this.app.ticker.add(this.render, this, UPDATE_PRIORITY.HIGH);
+  }
+
+  /** Update every camera (call in lateUpdate). */
+  update(): void {
+    for (const camera of this.cameras) camera.update();
+  }
+
+  /** A view's rect in virtual pixels. */
+  getViewRect(index: number): { x: number; y: number; width: number; height: number } {
+    const { x, y, width, height } = this.views[index];
+    return { x, y, width, height };
+  }
+
+  /** Index of the view containing screen point (x, y), or -1 (gaps belong to no view). */
+  viewAt(screenX: number, screenY: number): number {
+    return this.views.findIndex((v) =>
+      screenX >= v.x && screenX < v.x + v.width && screenY >= v.y && screenY < v.y + v.height);
+  }
+
+  /** Resolve a screen point to the view it falls in and the world position that camera shows there. */
+  screenToWorld(screenX: number, screenY: number): SplitScreenHit | null {
+    const index = this.viewAt(screenX, screenY);
+    if (index === -1) return null;
+    const view = this.views[index];
+    return { view: index, camera: view.camera, position: view.camera.screenToWorld(screenX - view.x, screenY - view.y) };
+  }
+
+  /** Where a world point appears on screen in view `index`. */
+  worldToScreen(index: number, worldX: number, worldY: number): Vector2 {
+    const view = this.views[index];
+    const [x, y] = view.camera.worldToScreen(worldX, worldY);
+    return [x + view.x, y + view.y];
+  }
+
+  /** Put the world back on the stage and free the view textures. The cameras stop being driven. */
+  destroy(): void {
+    this.app.ticker.remove(this.render, this);
+    this.unsubscribeResize();
+    const parent = this.container.parent;
+    if (parent) {
+      parent.addChildAt(this.world, parent.getChildIndex(this.container));
+      parent.removeChild(this.container);
+    }
+    for (const view of this.views) {
+      view.camera.destroy();
+      view.texture.destroy(true);
+    }
+    this.container.destroy({ children: true });
+  }
+
+  /** Size every view from its fractional rect, minus half the gap on inner edges. */
+  private layout(): void {
+    const screenW = this.game.width;
+    const screenH = this.game.height;
+    const half = this.gap / 2;
+    const resolution = this.displayResolution();
+    this.resolution = resolution;
+
+    this.rects.forEach((rect, i) => {
+      const view = this.views[i];
+      const left = rect.x > 0 ? half : 0;
+      const top = rect.y > 0 ? half : 0;
+      const right = rect.x + rect.width < 1 ? half : 0;
+      const bottom = rect.y + rect.height < 1 ? half : 0;
+      view.x = Math.round(rect.x * screenW + left);
+      view.y = Math.round(rect.y * screenH + top);
+      view.width = Math.max(1, Math.round(rect.width * screenW - left - right));
+      view.height = Math.max(1, Math.round(rect.height * screenH - top - bottom));
+
+      view.texture.source.resize(view.width, view.height, resolution);
+      view.sprite.position.set(view.x, view.y);
+      view.sprite.setSize(view.width, view.height);
+      view.camera.setViewport(view.width, view.height);
+    });
+  }
+
+  /** Render at display resolution — the stage is scaled from virtual to display pixels. */
+  private displayResolution(): number {
+    return this.app.renderer.resolution * this.app.stage.scale.x;
+  }
+
+  private render(): void {
+    // Letterbox and integer scaling rescale the stage without a resize event
+    if (this.displayResolution() !== this.resolution) this.layout();
+    const renderer = this.app.renderer;
+    for (const view of this.views) {
+      view.transform.updateLocalTransform();
+      renderer.render({
+        container: this.world,
+        target: view.texture,
+        transform: view.transform.localTransform,
+        clear: true,
+        clearColor: renderer.background.colorRgba,
+      });
+    }
+  }
+}
@@ -3,6 +3,214 @@
  * Provides delta time, elapsed time, and time scaling.
  */
 
+import { Ease, type EaseFunction } from './easing';
+import { RingBuffer } from './RingBuffer';
+import { EPSILON } from './scheduling';
+
+/** Options for Time.clock() — applied when the clock is first created */
+export interface ClockOptions {
+  /** Multiplier on unscaled time. Default: 1 */
+  scale?: number;
+  /** Stand still while the game is paused via game.pause(). Default: true */
+  pauseWithGame?: boolean;
+}
+
+/**
+ * A named time channel with its own scale, pause flag and hit-stops. Clocks
+ * advance from the unscaled frame delta, so they ignore Time.timeScale,
+ * global effects and each other.
+ */
+export class Clock {
+  readonly name: string;
+  /** Multiplier on unscaled time */
+  scale: number;
+  /** Freeze this clock only */
+  paused = false;
+  /** Stand still while the game is paused */
+  pauseWithGame: boolean;
+  /** This clock's time since last frame in seconds */
+  deltaTime = 0;
+  /** This clock's total elapsed time */
+  time = 0;
+  /** Product of this clock's hitStop()/rampScale() effects, applied on top of scale */
+  effectScale = 1;
+  private initialScale: number;
+  private effects: ScaleEffect[] = [];
+
+  constructor(name: string, options?: ClockOptions) {
+    this.name = name;
+    this.scale = this.initialScale = options?.scale ?? 1;
+    this.pauseWithGame = options?.pauseWithGame ?? true;
+  }
+
+  /** Advance by one frame of unscaled time (called by Time.update). */
+  tick(unscaledDt: number, gamePaused: boolean): void {
+    const stopped = this.paused || (gamePaused && this.pauseWithGame);
+    if (!stopped) [this.effects, this.effectScale] = advanceEffects(this.effects, unscaledDt);
+    this.deltaTime = stopped ? 0 : unscaledDt * this.scale * this.effectScale;
+    this.time += this.deltaTime;
+  }
+
+  /** Freeze this clock only for `duration` unscaled seconds (see Time.hitStop). */
+  hitStop(duration: number): TimeScaleEffect {
+    return this.addEffect(new ScaleEffect(hitStopSegments(duration)));
+  }
+
+  /** Ramp this clock only to `target` × scale (see Time.rampScale). */
+  rampScale(target: number, duration: number, easing: EaseFunction = Ease.quadOut, options?: RampScaleOptions): TimeScaleEffect {
+    return this.addEffect(new ScaleEffect(rampSegments(target, duration, easing, options)));
+  }
+
+  /** End this clock's hit-stops and scale ramps. */
+  clearEffects(): void {
+    for (const effect of this.effects) effect.cancel();
+    this.effects = [];
+    this.effectScale = 1;
+  }
+
+  /** Zero time, unpause, end effects and restore the scale it was created with. */
+  reset(): void {
+    this.clearEffects();
+    this.scale = this.initialScale;
+    this.paused = false;
+    this.deltaTime = 0;
+    this.time = 0;
+  }
+
+  private addEffect(effect: ScaleEffect): TimeScaleEffect {
+    this.effects = [...this.effects, effect];
+    return effect;
+  }
+}
+
+/** Options for Time.configureFrameStats() */
+export interface FrameStatsOptions {
+  /** Frames kept in the history and rolling stats. Default: 120 */
+  window?: number;
+  /** Frame time (ms) above which a frame counts as over budget. Default: 1000 / 60 */
+  budget?: number;
+  /** Frame time (ms) above which onHitch fires. Default: 50 */
+  hitch?: number;
+}
+
+/** Rolling frame time over the stats window, in milliseconds */
+export interface FrameStats {
+  last: number;
+  avg: number;
+  min: number;
+  max: number;
+  /** Frames in the window */
+  frames: number;
+  /** Frames in the window over budget */
+  overBudget: number;
+}
+
+/** Options for Time.rampScale() */
+export interface RampScaleOptions {
+  /** Seconds to hold at the target before ramping back. Default: hold until release() */
+  hold?: number;
+}
+
+/** Handle to a hit-stop or scale ramp, returned by Time.hitStop()/rampScale() */
+export interface TimeScaleEffect {
+  /** Current multiplier this effect applies to Time.deltaTime (or its clock's deltaTime) */
+  readonly scale: number;
+  /** Still applied — not finished, released to 1 or cancelled */
+  readonly active: boolean;
+  /** Resolves when the effect finishes or is cancelled */
+  readonly finished: Promise<void>;
+  /** Ramp back to 1 over `duration` unscaled seconds, then end. */
+  release(duration?: number, easing?: EaseFunction): void;
+  /** End the effect now. */
+  cancel(): void;
+}
+
+interface ScaleSegment {
+  from: number;
+  to: number;
+  duration: number;
+  easing: EaseFunction;
+}
+
+/** A queue of scale segments, each sampled at the start of the frame it covers. */
+class ScaleEffect implements TimeScaleEffect {
+  readonly finished: Promise<void>;
+  scale: number;
+  private segments: ScaleSegment[];
+  private elapsed = 0;
+  private done = false;
+  private resolveFinished!: () => void;
+
+  constructor(segments: ScaleSegment[]) {
+    this.segments = segments;
+    this.scale = segments[0].from;
+    this.finished = new Promise((resolve) => { this.resolveFinished = resolve; });
+  }
+
+  get active(): boolean {
+    return !this.done;
+  }
+
+  release(duration = 0, easing: EaseFunction = Ease.quadOut): void {
+    if (this.done) return;
+    this.segments = [{ from: this.scale, to: 1, duration, easing }];
+    this.elapsed = 0;
+    if (duration <= 0) this.cancel();
+  }
+
+  cancel(): void {
+    if (this.done) return;
+    this.done = true;
+    this.scale = 1;
+    this.resolveFinished();
+  }
+
+  /** Sample the scale for this frame, then advance by `dt`. Returns false once done. */
+  advance(dt: number): boolean {
+    if (this.done) return false;
+    const segment = this.segments[0];
+    const t = segment.duration > 0 ? Math.min(1, this.elapsed / segment.duration) : 1;
+    this.scale = segment.from + (segment.to - segment.from) * segment.easing(t);
+
+    this.elapsed += dt;
+    while (this.segments.length > 0 && this.elapsed + EPSILON >= this.segments[0].duration) {
+      this.elapsed = Math.max(0, this.elapsed - this.segments[0].duration);
+      this.segments = this.segments.slice(1);
+    }
+    if (this.segments.length === 0) {
+      // Apply this frame's sample, end before the next
+      const scale = this.scale;
+      this.cancel();
+      this.scale = scale;
+    }
+    return true;
+  }
+}
+
+function hitStopSegments(duration: number): ScaleSegment[] {
+  return [{ from: 0, to: 0, duration, easing: Ease.linear }];
+}
+
+function rampSegments(target: number, duration: number, easing: EaseFunction, options?: RampScaleOptions): ScaleSegment[] {
+  const segments: ScaleSegment[] = [{ from: 1, to: target, duration, easing }];
+  if (options?.hold !== undefined) {
+    segments.push({ from: target, to: target, duration: options.hold, easing: Ease.linear });
+    segments.push({ from: target, to: 1, duration, easing });
+  } else {
+    segments.push({ from: target, to: target, duration: Infinity, easing: Ease.linear });
+  }
+  return segments;
+}
+
+/** Advance every effect by `dt`. Returns the ones still active and the product of this frame's scales. */
+function advanceEffects(effects: ScaleEffect[], dt: number): [ScaleEffect[], number] {
+  let scale = 1;
+  for (const effect of effects) {
+    if (effect.advance(dt)) scale *= effect.scale;
+  }
+  return [effects.some((e) => !e.active) ? effects.filter((e) => e.active) : effects, scale];
+}
+
 export class Time {
   /** Time since last frame in seconds */
   static deltaTime: number = 0;
@@ -16,29 +224,61 @@ export class Time {
   /** Unscaled total elapsed time */
   static unscaledTime: number = 0;
 
-  /** Fixed timestep for physics (1/60 second) */
-  static readonly fixedDeltaTime: number = 1 / 60;
+  /** Fixed timestep for physics (default 1/60 second, set via GameInitConfig.fixedRate) */
+  static fixedDeltaTime: number = 1 / 60;
 
   /** Time scale for slow-mo or pause effects */
   static timeScale: number = 1;
 
+  /** Product of active hitStop()/rampScale() effects, applied on top of timeScale */
+  static effectScale: number = 1;
+
   /** Frame count since game start */
   static frameCount: number = 0;
 
   /** Current frames per second */
   static fps: number = 60;
 
+  /** Frames over the frame stats budget since start (or the last resetFrameStats) */
+  static overBudgetFrames: number = 0;
+
+  private static clocks: Map<string, Clock> = new Map();
+  private static effects: ScaleEffect[] = [];
+  private static frameTimes: RingBuffer = new RingBuffer(120);
+  private static frameBudget: number = 1000 / 60;
+  private static hitchThreshold: number = 50;
+  private static hitchCallbacks: Array<(frameMs: number) => void> = [];
   private static fpsAccumulator: number = 0;
   private static fpsFrameCount: number = 0;
 
-  /** Update time values (called by Game loop) */
-  static update(dt: number): void {
+  /**
+   * Update time values (called by Game loop).
+   * While paused, scaled time stands still (deltaTime = 0) and unscaled time keeps ticking.
+   * `frameDt` is the measured frame time before maxDeltaTime clamping, used for frame stats.
+   */
+  static update(dt: number, paused = false, frameDt = dt): void {
     this.unscaledDeltaTime = dt;
-    this.deltaTime = dt * this.timeScale;
+    if (!paused) this.updateEffects(dt);
+    this.deltaTime = paused ? 0 : dt * this.timeScale * this.effectScale;
     this.unscaledTime += dt;
     this.time += this.deltaTime;
     this.frameCount++;
 
+    for (const clock of this.clocks.values()) clock.tick(dt, paused);
+
+    const frameMs = frameDt * 1000;
+    this.frameTimes.push(frameMs);
+    if (frameMs > this.frameBudget) this.overBudgetFrames++;
+    if (frameMs > this.hitchThreshold) {
+      for (const cb of this.hitchCallbacks) {
+        try {
+          cb(frameMs);
+        } catch (error) {
+          console.error('[bonkjs] onHitch listener threw:', error);
+        }
+      }
+    }
+
     // Update FPS every second
     this.fpsAccumulator += dt;
     this.fpsFrameCount++;
@@ -49,6 +289,102 @@ export class Time {
     }
   }
 
+  /**
+   * Get a named clock, creating it on first use. Systems read the clock
+   * they belong to — e.g. `ui` keeps running through bullet-time on Time.timeScale.
+   */
+  static clock(name: string, options?: ClockOptions): Clock {
+    let clock = this.clocks.get(name);
+    if (!clock) {
+      clock = new Clock(name, options);
+      this.clocks.set(name, clock);
+    }
+    return clock;
+  }
+
+  /** Rolling frame time stats over the last `window` frames. */
+  static get frameStats(): FrameStats {
+    const times = this.frameTimes;
+    let overBudget = 0;
+    for (let i = 0; i < times.length; i++) {
+      if (times.get(i) > this.frameBudget) overBudget++;
+    }
+    return {
+      last: times.last(),
+      avg: times.average(),
+      min: times.min(),
+      max: times.max(),
+      frames: times.length,
+      overBudget,
+    };
+  }
+
+  /** Frame times (ms) in the stats window, oldest first. */
+  static frameHistory(): number[] {
+    return this.frameTimes.toArray();
+  }
+
+  /** Change the stats window, budget or hitch threshold. A new window starts an empty history. */
+  static configureFrameStats(options: FrameStatsOptions): void {
+    if (options.window !== undefined && options.window !== this.frameTimes.capacity) {
+      this.frameTimes = new RingBuffer(options.window);
+    }
+    if (options.budget !== undefined) this.frameBudget = options.budget;
+    if (options.hitch !== undefined) this.hitchThreshold = options.hitch;
+  }
+
+  /** Clear the frame history and the over-budget count. */
+  static resetFrameStats(): void {
+    this.frameTimes.clear();
+    this.overBudgetFrames = 0;
+  }
+
+  /**
+   * Register a callback for frames slower than the hitch threshold — e.g. to
+   * drop effects quality on a struggling device. Receives the frame time in ms.
+   */
+  static onHitch(cb: (frameMs: number) => void): () => void {
+    this.hitchCallbacks.push(cb);
+    return () => {
+      const idx = this.hitchCallbacks.indexOf(cb);
+      if (idx !== -1) this.hitchCallbacks.splice(idx, 1);
+    };
+  }
+
+  /**
+   * Freeze scaled time for `duration` unscaled seconds — the impact pause on a
+   * heavy hit. Overlapping effects multiply, so the freeze holds until the
+   * longest one ends and timeScale itself is never touched.
+   */
+  static hitStop(duration: number): TimeScaleEffect {
+    return this.addEffect(new ScaleEffect(hitStopSegments(duration)));
+  }
+
+  /**
+   * Ramp scaled time to `target` × timeScale over `duration` unscaled seconds.
+   * Holds there until `release()`, or for `options.hold` seconds before ramping
+   * back over the same duration.
+   */
+  static rampScale(target: number, duration: number, easing: EaseFunction = Ease.quadOut, options?: RampScaleOptions): TimeScaleEffect {
+    return this.addEffect(new ScaleEffect(rampSegments(target, duration, easing, options)));
+  }
+
+  /** End every hit-stop and scale ramp. */
+  static clearEffects(): void {
+    for (const effect of this.effects) effect.cancel();
+    this.effects = [];
+    this.effectScale = 1;
+  }
+
+  private static addEffect(effect: ScaleEffect): TimeScaleEffect {
+    this.effects = [...this.effects, effect];
+    return effect;
+  }
+
+  private static updateEffects(dt: number): void {
+    [this.effects, this.effectScale] = advanceEffects(this.effects, dt);
+  }
+
   /** Reset all time values */
   static reset(): void {
     this.deltaTime = 0;
@@ -56,9 +392,12 @@ export class Time {
     this.time = 0;
     this.unscaledTime = 0;
     this.timeScale = 1;
+    this.clearEffects();
     this.frameCount = 0;
     this.fps = 60;
     this.fpsAccumulator = 0;
     this.fpsFrameCount = 0;
+    this.resetFrameStats();
+    for (const clock of this.clocks.values()) clock.reset();
   }
 }
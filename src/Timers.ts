@@ -0,0 +1,214 @@
+/**
+ * Timers - Delayed and repeating callbacks in game time.
+ * Driven by the Game loop: scaled and unscaled timers advance once per
+ * frame, fixed timers once per fixed step.
+ */
+
+import { Time, type Clock } from './Time';
+import { EPSILON, reportError } from './scheduling';
+
+/**
+ * Which time a timer counts.
+ * - `scaled` — Time.deltaTime; follows timeScale and stops while paused
+ * - `unscaled` — Time.unscaledDeltaTime; keeps running in slow-mo and pause menus
+ * - `fixed` — Time.fixedDeltaTime per fixed step; deterministic for replays and lockstep
+ * - a Clock from Time.clock() — that clock's deltaTime each frame
+ */
+export type TimerClock = 'scaled' | 'unscaled' | 'fixed' | Clock;
+
+/** Options for Timers.after() */
+export interface TimerOptions {
+  /** Default: 'scaled' */
+  clock?: TimerClock;
+}
+
+/** Options for Timers.every() */
+export interface RepeatTimerOptions extends TimerOptions {
+  /** Stop after firing this many times. Default: unlimited */
+  count?: number;
+  /** Fire once straight away, then every interval. Default: false */
+  immediate?: boolean;
+}
+
+export type TimerCallback = (timer: Timer) => void;
+
+/** Handle to a scheduled callback, returned by Timers.after()/every() */
+export interface Timer {
+  readonly clock: TimerClock;
+  /** Seconds between firings (the delay for one-shot timers) */
+  readonly interval: number;
+  /** Seconds counted towards the next firing */
+  readonly elapsed: number;
+  /** Seconds until the next firing */
+  readonly remaining: number;
+  /** 0→1 through the current interval */
+  readonly progress: number;
+  /** Times fired so far */
+  readonly count: number;
+  /** Still scheduled — not cancelled or finished */
+  readonly active: boolean;
+  readonly paused: boolean;
+  /** Stop the timer for good */
+  cancel(): void;
+  pause(): void;
+  resume(): void;
+  /** Restart from zero (firing count included); reschedules a finished or cancelled timer */
+  reset(): void;
+}
+
+/** Scheduled timers */
+let scheduled: ScheduledTimer[] = [];
+
+function schedule(timer: ScheduledTimer): Timer {
+  if (!scheduled.includes(timer)) scheduled = [...scheduled, timer];
+  return timer;
+}
+
+class ScheduledTimer implements Timer {
+  readonly clock: TimerClock;
+  readonly interval: number;
+  elapsed = 0;
+  count = 0;
+  private repeat: number;
+  private failures = 0;
+  private callback: TimerCallback;
+  private done = false;
+  private isPaused = false;
+
+  constructor(interval: number, callback: TimerCallback, clock: TimerClock, repeat: number) {
+    this.interval = interval;
+    this.callback = callback;
+    this.clock = clock;
+    this.repeat = repeat;
+  }
+
+  get active(): boolean {
+    return !this.done;
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  get remaining(): number {
+    return Math.max(0, this.interval - this.elapsed);
+  }
+
+  get progress(): number {
+    return this.interval > 0 ? Math.min(1, this.elapsed / this.interval) : 1;
+  }
+
+  cancel(): void {
+    this.done = true;
+  }
+
+  pause(): void {
+    this.isPaused = true;
+  }
+
+  resume(): void {
+    this.isPaused = false;
+  }
+
+  reset(): void {
+    this.elapsed = 0;
+    this.count = 0;
+    this.isPaused = false;
+    if (this.done) {
+      this.done = false;
+      schedule(this);
+    }
+  }
+
+  /** Advance by `dt`, firing as many times as it covers. Returns false once done. */
+  advance(dt: number): boolean {
+    if (this.done) return false;
+    if (this.isPaused) return true;
+    this.elapsed += dt;
+    while (!this.done && this.elapsed + EPSILON >= this.interval) {
+      this.elapsed = Math.max(0, this.elapsed - this.interval);
+      this.fire();
+      // A zero delay would loop forever — once per update is enough
+      if (this.interval <= 0) break;
+    }
+    return !this.done;
+  }
+
+  fire(): void {
+    this.count++;
+    if (this.count >= this.repeat) this.done = true;
+    try {
+      this.callback(this);
+    } catch (error) {
+      // A throwing timer keeps its schedule; the other timers and the frame carry on
+      this.failures++;
+      const hook = this.clock === 'fixed' ? 'fixedUpdate' : 'update';
+      reportError(error, hook, `timer ${this.callback.name || 'anonymous'}`, this.failures);
+    }
+  }
+}
+
+export class Timers {
+  /** Call `callback` once after `delay` seconds. */
+  static after(delay: number, callback: TimerCallback, options?: TimerOptions): Timer {
+    return schedule(new ScheduledTimer(delay, callback, options?.clock ?? 'scaled', 1));
+  }
+
+  /** Call `callback` every `interval` seconds until cancelled (or `count` times). */
+  static every(interval: number, callback: TimerCallback, options?: RepeatTimerOptions): Timer {
+    if (interval <= 0) throw new Error(`Timers.every: interval must be positive (got ${interval})`);
+    const timer = new ScheduledTimer(interval, callback, options?.clock ?? 'scaled', options?.count ?? Infinity);
+    if (options?.immediate) timer.fire();
+    return timer.active ? schedule(timer) : timer;
+  }
+
+  /** Call `callback` once after `ticks` fixed steps. */
+  static afterTicks(ticks: number, callback: TimerCallback): Timer {
+    return Timers.after(ticks * Time.fixedDeltaTime, callback, { clock: 'fixed' });
+  }
+
+  /** Call `callback` every `ticks` fixed steps. */
+  static everyTicks(ticks: number, callback: TimerCallback, options?: Omit<RepeatTimerOptions, 'clock'>): Timer {
+    return Timers.every(ticks * Time.fixedDeltaTime, callback, { ...options, clock: 'fixed' });
+  }
+
+  /** Number of scheduled timers. */
+  static get count(): number {
+    return scheduled.length;
+  }
+
+  /** Advance scaled and unscaled timers (called by Game loop once per frame). */
+  static update(): void {
+    Timers.advance((timer) => {
+      if (timer.clock === 'scaled') return Time.deltaTime;
+      if (timer.clock === 'unscaled') return Time.unscaledDeltaTime;
+      if (typeof timer.clock === 'object') return timer.clock.deltaTime;
+      return null;
+    });
+  }
+
+  /** Advance fixed timers (called by Game loop once per fixed step). */
+  static fixedUpdate(): void {
+    Timers.advance((timer) => (timer.clock === 'fixed' ? Time.fixedDeltaTime : null));
+  }
+
+  /** Cancel every timer. */
+  static clear(): void {
+    for (const timer of scheduled) timer.cancel();
+    scheduled = [];
+  }
+
+  private static advance(delta: (timer: ScheduledTimer) => number | null): void {
+    // Timers scheduled by callbacks start counting next update
+    let finished = false;
+    for (const timer of scheduled) {
+      const dt = delta(timer);
+      if (dt === null) {
+        if (!timer.active) finished = true;
+        continue;
+      }
+      if (!timer.advance(dt)) finished = true;
+    }
+    if (finished) scheduled = scheduled.filter((t) => t.active);
+  }
+}
@@ -6,6 +6,7 @@
 
 import { Container, Graphics, Text, type FederatedPointerEvent } from 'pixi.js';
 import { Input } from './Input';
+import type { Game } from './Game';
 
 /** Convert DOM pointer coordinates to virtual canvas coordinates. */
 function domToVirtual(clientX: number, clientY: number, canvasWidth: number, canvasHeight: number): { x: number; y: number } | null {
@@ -57,10 +58,12 @@ export interface TouchButtonConfig {
 }
 
 export interface TouchControlsConfig {
-  /** Canvas width in virtual pixels (for position calculation). */
-  canvasWidth: number;
-  /** Canvas height in virtual pixels (for position calculation). */
-  canvasHeight: number;
+  /** Canvas width in virtual pixels (for position calculation). Default: game.width when `game` is set */
+  canvasWidth?: number;
+  /** Canvas height in virtual pixels (for position calculation). Default: game.height when `game` is set */
+  canvasHeight?: number;
+  /** Follow the game's virtual size — controls re-layout on every game.onResize. */
+  game?: Game;
   /** Joystick config, or false to disable. Default: enabled with defaults. */
   joystick?: TouchJoystickConfig | false;
   /** Action button configs. Default: none. */
@@ -98,11 +101,14 @@ export class TouchControls {
   readonly buttonContainers: Container[] = [];
 
   private readonly uiContainer: Container;
-  private readonly config: TouchControlsConfig;
   private readonly baseAlpha: number;
+  private canvasWidth: number;
+  private canvasHeight: number;
+  private unsubscribeResize: (() => void) | null = null;
 
   // Joystick state
   private joystickKnob: Graphics | null = null;
+  private joystickPosition: [number, number] = DEFAULT_JOYSTICK.position;
   private joystickCenterX = 0;
   private joystickCenterY = 0;
   private joystickRadius = 80;
@@ -116,7 +122,7 @@ export class TouchControls {
   // Button state
   private buttonData: {
     key: string; holdKey?: string; cancelOnLeave?: boolean;
-    centerX: number; centerY: number; cancelled: boolean;
+    position: [number, number]; centerX: number; centerY: number; cancelled: boolean;
     pointerId: number | null; gfx: Graphics; radius: number;
     aimStick: boolean; aimStickDeadzone: number; cancelRadiusMult: number;
     knob: Graphics | null; labelText: Text | null; originalLabel: string;
@@ -146,7 +152,13 @@ export class TouchControls {
 
   constructor(uiContainer: Container, config: TouchControlsConfig) {
     this.uiContainer = uiContainer;
-    this.config = config;
+    const canvasWidth = config.canvasWidth ?? config.game?.width;
+    const canvasHeight = config.canvasHeight ?? config.game?.height;
+    if (canvasWidth === undefined || canvasHeight === undefined) {
+      throw new Error('TouchControls: pass canvasWidth/canvasHeight or a game to size from');
+    }
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
     this.baseAlpha = config.alpha ?? 0.35;
     this.autoHide = config.autoHideOnKeyboard ?? true;
 
@@ -162,8 +174,9 @@ export class TouchControls {
       this.joystickDeadzone = jcfg.deadzone;
       this.joystickEightWay = jcfg.eightWay;
       this.joystickKeys = { ...DEFAULT_JOYSTICK.keys, ...jcfg.keys };
-      this.joystickCenterX = jcfg.position[0] * config.canvasWidth;
-      this.joystickCenterY = jcfg.position[1] * config.canvasHeight;
+      this.joystickPosition = jcfg.position;
+      this.joystickCenterX = jcfg.position[0] * this.canvasWidth;
+      this.joystickCenterY = jcfg.position[1] * this.canvasHeight;
       this.joystickContainer = this.buildJoystick();
       this.container.addChild(this.joystickContainer);
     }
@@ -177,6 +190,10 @@ export class TouchControls {
       }
     }
 
+    if (config.game) {
+      this.unsubscribeResize = config.game.onResize((width, height) => this.resize(width, height));
+    }
+
     // All drag/release tracking via DOM events — PixiJS events on uiContainer
     // are unreliable because it has no eventMode set.
     this.onWindowPointerMove = (e: PointerEvent) => this.handleWindowPointerMove(e);
@@ -346,7 +363,7 @@ export class TouchControls {
     const color = bcfg.color ?? DEFAULT_BUTTON.color;
     const isAimStick = bcfg.aimStick ?? false;
 
-    c.position.set(pos[0] * this.config.canvasWidth, pos[1] * this.config.canvasHeight);
+    c.position.set(pos[0] * this.canvasWidth, pos[1] * this.canvasHeight);
 
     // Circle — subtle fill + stroke for visibility on dark backgrounds
     const gfx = new Graphics();
@@ -392,11 +409,11 @@ export class TouchControls {
     hitBg.cursor = 'pointer';
     c.addChildAt(hitBg, 0);
 
-    const centerX = pos[0] * this.config.canvasWidth;
-    const centerY = pos[1] * this.config.canvasHeight;
+    const centerX = pos[0] * this.canvasWidth;
+    const centerY = pos[1] * this.canvasHeight;
     const data = {
       key: bcfg.key, holdKey: bcfg.holdKey, cancelOnLeave: bcfg.cancelOnLeave,
-      centerX, centerY, cancelled: false, pointerId: null as number | null, gfx, radius,
+      position: pos, centerX, centerY, cancelled: false, pointerId: null as number | null, gfx, radius,
       aimStick: isAimStick, aimStickDeadzone: bcfg.aimStickDeadzone ?? 0.2,
       cancelRadiusMult: bcfg.cancelRadius ?? 1.5,
       knob, labelText, originalLabel: bcfg.label ?? '', inCancelZone: false,
@@ -500,7 +517,7 @@ export class TouchControls {
   private handleWindowPointerMove(e: PointerEvent): void {
     // Joystick drag — convert DOM coords to virtual canvas space
     if (this.joystickPointerId !== null && e.pointerId === this.joystickPointerId) {
-      const pos = domToVirtual(e.clientX, e.clientY, this.config.canvasWidth, this.config.canvasHeight);
+      const pos = domToVirtual(e.clientX, e.clientY, this.canvasWidth, this.canvasHeight);
       if (pos) {
         this.updateJoystickFromLocal(pos.x - this.joystickCenterX, pos.y - this.joystickCenterY);
       }
@@ -513,7 +530,7 @@ export class TouchControls {
       // Skip buttons that have no drag behavior
       if (!d.aimStick && (!d.holdKey || !d.cancelOnLeave)) continue;
 
-      const pos = domToVirtual(e.clientX, e.clientY, this.config.canvasWidth, this.config.canvasHeight);
+      const pos = domToVirtual(e.clientX, e.clientY, this.canvasWidth, this.canvasHeight);
       if (!pos) continue;
       const dx = pos.x - d.centerX;
       const dy = pos.y - d.centerY;
@@ -633,6 +650,23 @@ export class TouchControls {
     }
   }
 
+  /** Re-layout controls for a new virtual canvas size. Called automatically when `game` is set. */
+  resize(canvasWidth: number, canvasHeight: number): void {
+    this.canvasWidth = canvasWidth;
+    this.canvasHeight = canvasHeight;
+
+    this.joystickCenterX = this.joystickPosition[0] * canvasWidth;
+    this.joystickCenterY = this.joystickPosition[1] * canvasHeight;
+    this.joystickContainer?.position.set(this.joystickCenterX, this.joystickCenterY);
+
+    for (let i = 0; i < this.buttonData.length; i++) {
+      const d = this.buttonData[i];
+      d.centerX = d.position[0] * canvasWidth;
+      d.centerY = d.position[1] * canvasHeight;
+      this.buttonContainers[i].position.set(d.centerX, d.centerY);
+    }
+  }
+
   // ==================== Cleanup ====================
 
   destroy(): void {
@@ -657,6 +691,9 @@ export class TouchControls {
     if (this.unsubscribeInputMode) {
       this.unsubscribeInputMode();
     }
+    if (this.unsubscribeResize) {
+      this.unsubscribeResize();
+    }
     if (this.onVisibilityChange) {
       document.removeEventListener('visibilitychange', this.onVisibilityChange);
     }
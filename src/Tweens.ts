@@ -0,0 +1,432 @@
+/**
+ * Tweens - Animate numeric properties over time.
+ * Handles numbers, Vector2 tuples, {x, y} points (PixiJS position/scale/pivot)
+ * and colors (`tint`/`color` keys). Driven by the Game loop like Timers.
+ */
+
+import { Time } from './Time';
+import { Ease, type EaseFunction } from './easing';
+import type { TimerClock } from './Timers';
+import type { LoopHook } from './CallbackList';
+import { EPSILON, reportError } from './scheduling';
+
+/** A value a tween can animate to: a number, a numeric tuple, or an {x, y} point */
+export type TweenValue = number | readonly number[] | { x: number; y: number };
+
+/** End values keyed by property name */
+export type TweenProps<T> = { [K in keyof T]?: TweenValue };
+
+/** Options shared by tweens and groups */
+export interface TweenGroupOptions {
+  /** Seconds to wait before starting. Default: 0 */
+  delay?: number;
+  /** Extra plays after the first — Infinity loops forever. Default: 0 */
+  repeat?: number;
+  /** Play every other repeat backwards. Default: false */
+  yoyo?: boolean;
+  /** Time the tween runs on (see TimerClock). Ignored inside a group. Default: 'scaled' */
+  clock?: TimerClock;
+  /** Called every update while running */
+  onUpdate?: (tween: Tween) => void;
+  /** Called once, when the end is reached */
+  onComplete?: () => void;
+}
+
+/** Options for Tweens.to()/from() */
+export interface TweenOptions extends TweenGroupOptions {
+  /** Default: Ease.quadOut */
+  ease?: EaseFunction;
+}
+
+/** Handle to a running tween or group */
+export interface Tween {
+  /** Total seconds including delay and repeats (Infinity when looping forever) */
+  readonly duration: number;
+  /** Seconds since the tween was created, including delay */
+  readonly elapsed: number;
+  /** 0→1 through the whole tween */
+  readonly progress: number;
+  /** Not yet completed or cancelled */
+  readonly active: boolean;
+  readonly paused: boolean;
+  /** Reached its end (false if cancelled first) */
+  readonly completed: boolean;
+  /** Resolves when the tween completes or is cancelled */
+  readonly finished: Promise<void>;
+  pause(): void;
+  resume(): void;
+  /** Stop where it is */
+  cancel(): void;
+  /** Jump to the end values and complete (looping tweens stop where they are) */
+  complete(): void;
+}
+
+/** Top-level animations being advanced */
+let running: Animation[] = [];
+
+/** Loop hook currently advancing tweens, for error reports */
+let phase: LoopHook = 'update';
+
+function schedule<T extends Animation>(animation: T): T {
+  running = [...running, animation];
+  return animation;
+}
+
+function unschedule(animation: Animation): void {
+  running = running.filter((a) => a !== animation);
+}
+
+abstract class Animation implements Tween {
+  readonly clock: TimerClock;
+  readonly finished: Promise<void>;
+  elapsed = 0;
+  private delay: number;
+  private repeat: number;
+  protected yoyo: boolean;
+  private onUpdate?: (tween: Tween) => void;
+  private onComplete?: () => void;
+  private resolve!: () => void;
+  private isPaused = false;
+  private isCompleted = false;
+  private cancelled = false;
+  /** Local time of the last render; -1 before the first (or after a rewind) */
+  private lastT = -1;
+
+  /** Seconds for one play */
+  abstract readonly length: number;
+
+  constructor(options?: TweenGroupOptions) {
+    this.delay = options?.delay ?? 0;
+    this.repeat = options?.repeat ?? 0;
+    this.yoyo = options?.yoyo ?? false;
+    this.clock = options?.clock ?? 'scaled';
+    this.onUpdate = options?.onUpdate;
+    this.onComplete = options?.onComplete;
+    this.finished = new Promise((resolve) => { this.resolve = resolve; });
+  }
+
+  get duration(): number {
+    return this.delay + this.length * (this.repeat + 1);
+  }
+
+  get progress(): number {
+    const duration = this.duration;
+    if (duration === Infinity) return 0;
+    return duration > 0 ? Math.min(1, this.elapsed / duration) : 1;
+  }
+
+  get active(): boolean {
+    return !this.isCompleted && !this.cancelled;
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  get completed(): boolean {
+    return this.isCompleted;
+  }
+
+  pause(): void {
+    this.isPaused = true;
+  }
+
+  resume(): void {
+    this.isPaused = false;
+  }
+
+  cancel(): void {
+    if (!this.active) return;
+    this.cancelled = true;
+    unschedule(this);
+    this.resolve();
+  }
+
+  complete(): void {
+    if (!this.active) return;
+    if (this.duration !== Infinity) this.sample(this.duration);
+    if (!this.isCompleted) this.finish();
+  }
+
+  /** Advance a top-level animation by `dt` seconds. */
+  advance(dt: number): void {
+    if (this.isPaused || !this.active) return;
+    this.sample(this.elapsed + dt);
+  }
+
+  /** Render the state `elapsed` seconds in. Groups call this on their children. */
+  sample(elapsed: number): void {
+    if (this.cancelled) return;
+    this.elapsed = elapsed;
+    const total = this.length * (this.repeat + 1);
+    let t = elapsed - this.delay;
+
+    if (t < 0) {
+      // Rewound before the start (yoyo/repeating group) — restore start values once
+      if (this.lastT > 0) this.renderAt(0);
+      this.lastT = -1;
+      return;
+    }
+    if (t + EPSILON >= total) {
+      if (this.lastT >= total) return;
+      t = total;
+    }
+    this.lastT = t;
+
+    if (t >= total) {
+      // Odd repeat counts end a yoyo on a backwards play
+      this.renderAt(this.yoyo && this.repeat % 2 === 1 ? 0 : this.length);
+    } else {
+      const iteration = Math.floor(t / this.length);
+      const local = t - iteration * this.length;
+      this.renderAt(this.yoyo && iteration % 2 === 1 ? this.length - local : local, iteration);
+    }
+    if (this.onUpdate) this.guard(() => this.onUpdate!(this), 'tween onUpdate');
+    if (t >= total && !this.isCompleted) this.finish();
+  }
+
+  /** Forget the last render so the next sample starts afresh (group repeats). */
+  rewind(): void {
+    this.lastT = -1;
+  }
+
+  /** Apply the state at `local` seconds into one play. */
+  protected abstract renderAt(local: number, iteration?: number): void;
+
+  /** Run a user callback; a throw is reported and the tween carries on. */
+  protected guard(fn: () => void, label: string): void {
+    try {
+      fn();
+    } catch (error) {
+      reportError(error, phase, label);
+    }
+  }
+
+  /** Unscheduled before onComplete runs, so a throwing handler can't leave it running. */
+  private finish(): void {
+    this.isCompleted = true;
+    unschedule(this);
+    if (this.onComplete) this.guard(this.onComplete, 'tween onComplete');
+    this.resolve();
+  }
+}
+
+interface PropertyTrack {
+  from: number[];
+  to: number[];
+  write: (values: number[]) => void;
+}
+
+const COLOR_KEYS = new Set(['tint', 'color']);
+
+const toRgb = (c: number): number[] => [(c >> 16) & 0xff, (c >> 8) & 0xff, c & 0xff];
+const fromRgb = (v: number[]): number =>
+  (Math.round(v[0]) << 16) | (Math.round(v[1]) << 8) | Math.round(v[2]);
+
+const isPoint = (v: unknown): v is { x: number; y: number } =>
+  typeof v === 'object' && v !== null && typeof (v as { x: unknown }).x === 'number' && typeof (v as { y: unknown }).y === 'number';
+
+class PropertyTween extends Animation {
+  readonly length: number;
+  readonly target: Record<string, unknown>;
+  private props: Record<string, TweenValue>;
+  private reverse: boolean;
+  private ease: EaseFunction;
+  /** Captured on first render, so sequenced tweens start from where the previous one ended */
+  private tracks: PropertyTrack[] | null = null;
+
+  constructor(target: object, props: Record<string, TweenValue>, duration: number, reverse: boolean, options?: TweenOptions) {
+    super(options);
+    this.target = target as Record<string, unknown>;
+    this.props = props;
+    this.length = Math.max(0, duration);
+    this.reverse = reverse;
+    this.ease = options?.ease ?? Ease.quadOut;
+
+    for (const key of Object.keys(props)) {
+      const current = this.target[key];
+      if (typeof current !== 'number' && !Array.isArray(current) && !isPoint(current)) {
+        throw new Error(`Tweens: can't animate "${key}" (${current === null ? 'null' : typeof current})`);
+      }
+    }
+  }
+
+  protected renderAt(local: number): void {
+    this.tracks ??= this.capture();
+    const p = this.ease(this.length > 0 ? local / this.length : 1);
+    for (const track of this.tracks) {
+      track.write(track.from.map((from, i) => from + (track.to[i] - from) * p));
+    }
+  }
+
+  private capture(): PropertyTrack[] {
+    const target = this.target;
+    return Object.keys(this.props).map((key) => {
+      const current = target[key];
+      const value = this.props[key];
+      let now: number[];
+      let end: number[];
+      let write: (values: number[]) => void;
+
+      if (typeof current === 'number' && COLOR_KEYS.has(key)) {
+        now = toRgb(current);
+        end = toRgb(value as number);
+        write = (v) => { target[key] = fromRgb(v); };
+      } else if (typeof current === 'number') {
+        now = [current];
+        end = [value as number];
+        write = (v) => { target[key] = v[0]; };
+      } else if (Array.isArray(current)) {
+        now = [...current];
+        end = [...(value as readonly number[])];
+        // Fresh array each frame — Vector2 values are treated as immutable
+        write = (v) => { target[key] = v; };
+      } else {
+        const point = current as { x: number; y: number; set?: (x: number, y: number) => void };
+        now = [point.x, point.y];
+        end = typeof value === 'number' ? [value, value] : isPoint(value) ? [value.x, value.y] : [...(value as readonly number[])];
+        write = typeof point.set === 'function'
+          ? (v) => point.set!(v[0], v[1])
+          : (v) => { point.x = v[0]; point.y = v[1]; };
+      }
+
+      return this.reverse ? { from: end, to: now, write } : { from: now, to: end, write };
+    });
+  }
+}
+
+class WaitAnimation extends Animation {
+  readonly length: number;
+
+  constructor(seconds: number) {
+    super();
+    this.length = Math.max(0, seconds);
+  }
+
+  protected renderAt(): void {}
+}
+
+class CallAnimation extends Animation {
+  readonly length = 0;
+  private fn: () => void;
+
+  constructor(fn: () => void) {
+    super();
+    this.fn = fn;
+  }
+
+  protected renderAt(): void {
+    this.guard(this.fn, `Tweens.call ${this.fn.name || 'anonymous'}`);
+  }
+}
+
+class GroupAnimation extends Animation {
+  readonly length: number;
+  private children: Animation[];
+  private offsets: number[];
+  private lastLocal = 0;
+  private lastIteration = 0;
+
+  constructor(children: Tween[], sequential: boolean, options?: TweenGroupOptions) {
+    super(options);
+    this.children = children as Animation[];
+    for (const child of this.children) unschedule(child);
+
+    let offset = 0;
+    this.offsets = this.children.map((child) => {
+      const start = sequential ? offset : 0;
+      offset += child.duration;
+      return start;
+    });
+    this.length = sequential ? offset : Math.max(0, ...this.children.map((c) => c.duration));
+  }
+
+  cancel(): void {
+    for (const child of this.children) child.cancel();
+    super.cancel();
+  }
+
+  protected renderAt(local: number, iteration = this.lastIteration): void {
+    if (iteration !== this.lastIteration) {
+      // A plain repeat jumps back to the start; yoyo plays back through children continuously
+      if (!this.yoyo) for (const child of this.children) child.rewind();
+      this.lastIteration = iteration;
+    }
+    // Backwards (yoyo) renders later children first so earlier ones win on shared properties
+    const backwards = local < this.lastLocal;
+    this.lastLocal = local;
+    const count = this.children.length;
+    for (let n = 0; n < count; n++) {
+      const i = backwards ? count - 1 - n : n;
+      this.children[i].sample(local - this.offsets[i]);
+    }
+  }
+}
+
+export class Tweens {
+  /** Animate `target`'s properties from their current values to `props`. */
+  static to<T extends object>(target: T, props: TweenProps<T>, duration: number, options?: TweenOptions): Tween {
+    return schedule(new PropertyTween(target, props as Record<string, TweenValue>, duration, false, options));
+  }
+
+  /** Animate `target`'s properties from `props` back to their current values. */
+  static from<T extends object>(target: T, props: TweenProps<T>, duration: number, options?: TweenOptions): Tween {
+    return schedule(new PropertyTween(target, props as Record<string, TweenValue>, duration, true, options));
+  }
+
+  /** Play tweens one after another. The tweens passed in are taken over by the group. */
+  static sequence(tweens: Tween[], options?: TweenGroupOptions): Tween {
+    return schedule(new GroupAnimation(tweens, true, options));
+  }
+
+  /** Play tweens together; the group ends with the longest. The tweens passed in are taken over by the group. */
+  static parallel(tweens: Tween[], options?: TweenGroupOptions): Tween {
+    return schedule(new GroupAnimation(tweens, false, options));
+  }
+
+  /** A pause, for use inside sequences. */
+  static delay(seconds: number): Tween {
+    return schedule(new WaitAnimation(seconds));
+  }
+
+  /** Call `fn` when reached, for use inside sequences. */
+  static call(fn: () => void): Tween {
+    return schedule(new CallAnimation(fn));
+  }
+
+  /** Cancel running Tweens.to()/from() tweens on `target` (tweens inside groups are left alone). */
+  static cancelTweensOf(target: object): void {
+    for (const animation of running) {
+      if (animation instanceof PropertyTween && animation.target === target) animation.cancel();
+    }
+  }
+
+  /** Number of running top-level tweens and groups. */
+  static get count(): number {
+    return running.length;
+  }
+
+  /** Advance scaled and unscaled tweens (called by Game loop once per frame). */
+  static update(): void {
+    for (const animation of running) {
+      if (animation.clock === 'scaled') animation.advance(Time.deltaTime);
+      else if (animation.clock === 'unscaled') animation.advance(Time.unscaledDeltaTime);
+      else if (typeof animation.clock === 'object') animation.advance(animation.clock.deltaTime);
+    }
+  }
+
+  /** Advance fixed-clock tweens (called by Game loop once per fixed step). */
+  static fixedUpdate(): void {
+    phase = 'fixedUpdate';
+    for (const animation of running) {
+      if (animation.clock === 'fixed') animation.advance(Time.fixedDeltaTime);
+    }
+    phase = 'update';
+  }
+
+  /** Cancel every tween. */
+  static clear(): void {
+    for (const animation of running) animation.cancel();
+    running = [];
+  }
+}
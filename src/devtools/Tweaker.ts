@@ -6,7 +6,8 @@
  * Zero overhead when hidden — no game loop integration needed.
  */
 
-import type { TweakerConfig, RegisterOptions, GroupEntry } from './types';
+import type { TweakerConfig, RegisterOptions, GroupEntry, GraphOptions } from './types';
+import type { LoopProfile } from '../Profiler';
 import { TweakerOverlay } from './TweakerOverlay';
 
 const DEFAULT_CONFIG: Required<TweakerConfig> = {
@@ -87,6 +88,53 @@ export class Tweaker {
     Tweaker.overlay?.removeGroup(name);
   }
 
+  /**
+   * Add a live line graph. `sample` is polled every frame while the
+   * overlay is visible.
+   */
+  static addGraph(name: string, options: GraphOptions) {
+    if (!Tweaker.initialized) return;
+    Tweaker.overlay?.removeGraph(name);
+    Tweaker.overlay?.addGraph({ name, options });
+  }
+
+  /**
+   * Remove a graph.
+   */
+  static removeGraph(name: string) {
+    Tweaker.overlay?.removeGraph(name);
+  }
+
+  /**
+   * Graph frame time from a profiling game (see game.setProfiling()),
+   * with percentiles and the slowest callbacks listed underneath.
+   */
+  static addProfiler(source: { getProfile(): LoopProfile | null }, name = 'Profiler') {
+    const ms = (v: number) => `${v.toFixed(2)} ms`;
+    const options: GraphOptions = {
+      unit: 'ms',
+      budget: 1000 / 60,
+      sample: () => {
+        const profile = source.getProfile();
+        if (profile) options.budget = profile.budget;
+        return profile?.frameTime.last ?? 0;
+      },
+      details: () => {
+        const profile = source.getProfile();
+        if (!profile) return [['profiling', 'off']];
+        const { p50, p95, p99 } = profile.frameTime;
+        return [
+          ['p50 / p95 / p99', `${p50.toFixed(1)} / ${p95.toFixed(1)} / ${p99.toFixed(1)}`],
+          ['loop avg', ms(profile.loopTime.avg)],
+          ['fixed steps', profile.fixedSteps.avg.toFixed(2)],
+          ['long frames', profile.longFrames],
+          ...profile.callbacks.slice(0, 5).map((c): [string, string] => [`${c.hook} · ${c.label}`, ms(c.avg)]),
+        ];
+      },
+    };
+    Tweaker.addGraph(name, options);
+  }
+
   /** Show the tweaker overlay */
   static show() {
     Tweaker.overlay?.show();
@@ -5,7 +5,7 @@
  * Handles all DOM creation, search filtering, field editors.
  */
 
-import type { GroupEntry, FieldHint, FieldType, TweakerTheme } from './types';
+import type { GroupEntry, GraphEntry, FieldHint, FieldType, TweakerTheme } from './types';
 import { TWEAKER_CSS } from './tweaker-styles';
 
 type ChangeCallback = (group: string, path: string, value: unknown) => void;
@@ -13,6 +13,19 @@ type ResetCallback = (group?: string) => void;
 type ExportCallback = () => string;
 type ImportCallback = (json: string) => void;
 
+interface GraphRef {
+  entry: GraphEntry;
+  el: HTMLElement;
+  body: HTMLElement;
+  canvas: HTMLCanvasElement;
+  readout: HTMLElement;
+  details: HTMLElement;
+  samples: number[];
+}
+
+/** Samples kept per graph — one per frame */
+const GRAPH_SAMPLES = 120;
+
 interface FieldRef {
   groupName: string;
   path: string;
@@ -29,6 +42,9 @@ export class TweakerOverlay {
   private styleEl: HTMLStyleElement | null = null;
   private fields: FieldRef[] = [];
   private groupBodies: Map<string, HTMLElement> = new Map();
+  private graphs: Map<string, GraphRef> = new Map();
+  private graphsEl: HTMLDivElement | null = null;
+  private graphFrameId: number | null = null;
   private onChange: ChangeCallback = () => {};
   private onReset: ResetCallback = () => {};
   private onExport: ExportCallback = () => '{}';
@@ -104,6 +120,10 @@ export class TweakerOverlay {
     this.body = document.createElement('div');
     this.body.className = 'bonk-tweaker-body';
 
+    this.graphsEl = document.createElement('div');
+    this.graphsEl.className = 'bonk-tweaker-graphs';
+    this.body.appendChild(this.graphsEl);
+
     // Footer
     const footer = document.createElement('div');
     footer.className = 'bonk-tweaker-footer';
@@ -279,6 +299,70 @@ export class TweakerOverlay {
     this.groupBodies.delete(name);
   }
 
+  addGraph(entry: GraphEntry) {
+    if (!this.graphsEl) return;
+
+    const el = document.createElement('div');
+    el.className = 'bonk-tweaker-graph';
+
+    let collapsed = entry.options.collapsed ?? false;
+    try {
+      const saved = localStorage.getItem(`${this.storagePrefix}-ui:graph:${entry.name}`);
+      if (saved !== null) collapsed = saved === '1';
+    } catch { /* private mode */ }
+
+    const header = document.createElement('div');
+    header.className = 'bonk-tweaker-group-header';
+
+    const arrow = document.createElement('span');
+    arrow.className = 'bonk-tweaker-group-arrow';
+    arrow.textContent = collapsed ? '\u25b6' : '\u25bc';
+
+    const name = document.createElement('span');
+    name.className = 'bonk-tweaker-group-name';
+    name.textContent = entry.name;
+
+    const readout = document.createElement('span');
+    readout.className = 'bonk-tweaker-graph-readout';
+
+    header.appendChild(arrow);
+    header.appendChild(name);
+    header.appendChild(readout);
+
+    const body = document.createElement('div');
+    body.className = `bonk-tweaker-group-body${collapsed ? ' collapsed' : ''}`;
+
+    header.addEventListener('click', () => {
+      const isCollapsed = body.classList.toggle('collapsed');
+      arrow.textContent = isCollapsed ? '\u25b6' : '\u25bc';
+      try { localStorage.setItem(`${this.storagePrefix}-ui:graph:${entry.name}`, isCollapsed ? '1' : '0'); }
+      catch { /* quota exceeded or private mode */ }
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.className = 'bonk-tweaker-graph-canvas';
+    canvas.width = this.width - 20;
+    canvas.height = 60;
+
+    const details = document.createElement('div');
+    details.className = 'bonk-tweaker-graph-details';
+
+    body.appendChild(canvas);
+    body.appendChild(details);
+    el.appendChild(header);
+    el.appendChild(body);
+    this.graphsEl.appendChild(el);
+
+    this.graphs.set(entry.name, { entry, el, body, canvas, readout, details, samples: [] });
+  }
+
+  removeGraph(name: string) {
+    const graph = this.graphs.get(name);
+    if (!graph) return;
+    graph.el.remove();
+    this.graphs.delete(name);
+  }
+
   show() {
     if (!this.root) return;
     this.currentState = 'active';
@@ -291,6 +375,9 @@ export class TweakerOverlay {
     if (!this.getterInterval) {
       this.getterInterval = setInterval(() => this.refreshGetters(), 500);
     }
+    if (this.graphFrameId === null) {
+      this.graphFrameId = requestAnimationFrame(this.updateGraphs);
+    }
 
     this.fab?.classList.add('fab-hidden');
 
@@ -311,6 +398,10 @@ export class TweakerOverlay {
       clearInterval(this.getterInterval);
       this.getterInterval = null;
     }
+    if (this.graphFrameId !== null) {
+      cancelAnimationFrame(this.graphFrameId);
+      this.graphFrameId = null;
+    }
 
     this.fab?.classList.remove('fab-hidden');
 
@@ -415,6 +506,7 @@ export class TweakerOverlay {
 
   destroy() {
     if (this.getterInterval) clearInterval(this.getterInterval);
+    if (this.graphFrameId !== null) cancelAnimationFrame(this.graphFrameId);
     if (this.logoIdleTimer) clearTimeout(this.logoIdleTimer);
     if (this.wakingTimer) clearTimeout(this.wakingTimer);
     this.removeDormantListeners();
@@ -423,8 +515,11 @@ export class TweakerOverlay {
     this.fab?.remove();
     this.fields = [];
     this.groupBodies.clear();
+    this.graphs.clear();
+    this.graphFrameId = null;
     this.root = null;
     this.body = null;
+    this.graphsEl = null;
     this.logo = null;
     this.fab = null;
   }
@@ -771,6 +866,74 @@ export class TweakerOverlay {
     container.appendChild(wrapper);
   }
 
+  // === Graphs ===
+
+  private updateGraphs = () => {
+    this.graphFrameId = requestAnimationFrame(this.updateGraphs);
+    for (const graph of this.graphs.values()) {
+      const { options } = graph.entry;
+      graph.samples.push(options.sample());
+      if (graph.samples.length > GRAPH_SAMPLES) graph.samples.shift();
+
+      const last = graph.samples[graph.samples.length - 1];
+      graph.readout.textContent = `${this.formatNumber(Number(last.toFixed(2)))}${options.unit ? ` ${options.unit}` : ''}`;
+      graph.readout.classList.toggle('over-budget', options.budget !== undefined && last > options.budget);
+
+      if (graph.body.classList.contains('collapsed')) continue;
+      this.drawGraph(graph);
+      if (options.details) this.renderGraphDetails(graph.details, options.details());
+    }
+  };
+
+  private drawGraph(graph: GraphRef) {
+    const ctx = graph.canvas.getContext('2d');
+    if (!ctx) return;
+    const { width, height } = graph.canvas;
+    const { budget, max } = graph.entry.options;
+    const top = max ?? (Math.max(...graph.samples, budget ?? 0) * 1.1 || 1);
+    const y = (v: number) => height - (Math.min(v, top) / top) * height;
+    const accent = getComputedStyle(this.root!).getPropertyValue('--bonk-accent').trim() || '#f59e0b';
+
+    ctx.clearRect(0, 0, width, height);
+
+    if (budget !== undefined && budget <= top) {
+      ctx.strokeStyle = '#ef4444';
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.moveTo(0, y(budget));
+      ctx.lineTo(width, y(budget));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    const dx = width / (GRAPH_SAMPLES - 1);
+    const offset = GRAPH_SAMPLES - graph.samples.length;
+    ctx.strokeStyle = accent;
+    ctx.beginPath();
+    graph.samples.forEach((v, i) => {
+      const px = (offset + i) * dx;
+      if (i === 0) ctx.moveTo(px, y(v));
+      else ctx.lineTo(px, y(v));
+    });
+    ctx.stroke();
+  }
+
+  private renderGraphDetails(container: HTMLElement, rows: Array<[string, string | number]>) {
+    while (container.children.length > rows.length) container.lastChild!.remove();
+    rows.forEach(([label, value], i) => {
+      let row = container.children[i] as HTMLElement | undefined;
+      if (!row) {
+        row = document.createElement('div');
+        row.className = 'bonk-tweaker-graph-row';
+        row.appendChild(document.createElement('span'));
+        row.appendChild(document.createElement('span'));
+        container.appendChild(row);
+      }
+      row.children[0].textContent = label;
+      row.children[1].textContent = typeof value === 'number' ? this.formatNumber(value) : value;
+    });
+  }
+
   // === Search ===
 
   private applySearch() {
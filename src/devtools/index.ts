@@ -1,2 +1,2 @@
 export { Tweaker } from './Tweaker';
-export type { TweakerConfig, RegisterOptions, FieldHint, TweakerTheme } from './types';
+export type { TweakerConfig, RegisterOptions, FieldHint, TweakerTheme, GraphOptions } from './types';
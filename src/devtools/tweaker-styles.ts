@@ -275,6 +275,45 @@ export const TWEAKER_CSS = `
   display: none;
 }
 
+/* Graph */
+.bonk-tweaker-graph {
+  border-bottom: 1px solid #27272a;
+}
+.bonk-tweaker-graph-readout {
+  font-size: 11px;
+  color: #a1a1aa;
+  font-variant-numeric: tabular-nums;
+}
+.bonk-tweaker-graph-readout.over-budget {
+  color: #ef4444;
+}
+.bonk-tweaker-graph-canvas {
+  display: block;
+  width: calc(100% - 20px);
+  height: 60px;
+  margin: 4px 10px;
+  background: #18181b;
+  border: 1px solid #27272a;
+  border-radius: 4px;
+}
+.bonk-tweaker-graph-row {
+  display: flex;
+  justify-content: space-between;
+  gap: 6px;
+  padding: 1px 10px 1px 26px;
+  font-size: 11px;
+  color: #a1a1aa;
+}
+.bonk-tweaker-graph-row span:first-child {
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+}
+.bonk-tweaker-graph-row span:last-child {
+  color: #71717a;
+  font-variant-numeric: tabular-nums;
+}
+
 /* Sub-group (nested object) */
 .bonk-tweaker-subgroup {
   margin-left: 12px;
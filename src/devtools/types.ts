@@ -27,6 +27,22 @@ export interface TweakerConfig {
   theme?: TweakerTheme;
 }
 
+/** Options passed to Tweaker.addGraph() */
+export interface GraphOptions {
+  /** Called once per frame while the overlay is visible; the value to plot */
+  sample: () => number;
+  /** Draw a reference line at this value (e.g. a frame budget) */
+  budget?: number;
+  /** Fixed top of the y axis (default: scales to the largest visible sample) */
+  max?: number;
+  /** Unit suffix for the readout (e.g. 'ms') */
+  unit?: string;
+  /** Extra label/value rows shown under the graph, refreshed with it */
+  details?: () => Array<[string, string | number]>;
+  /** Start this graph collapsed (default: false) */
+  collapsed?: boolean;
+}
+
 /** Internal representation of a registered constant group */
 export interface GroupEntry {
   name: string;
@@ -35,6 +51,12 @@ export interface GroupEntry {
   options: RegisterOptions;
 }
 
+/** Internal representation of a registered graph */
+export interface GraphEntry {
+  name: string;
+  options: GraphOptions;
+}
+
 /** Detected field type for rendering */
 export type FieldType = 'number' | 'color' | 'boolean' | 'object' | 'readonly';
 
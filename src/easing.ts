@@ -0,0 +1,81 @@
+/**
+ * Standard easing curves. Each maps progress t (0→1) to eased progress,
+ * 0 at t=0 and 1 at t=1 (back/elastic overshoot in between).
+ */
+
+/** Maps linear progress 0→1 to eased progress */
+export type EaseFunction = (t: number) => number;
+
+const C1 = 1.70158;
+const C2 = C1 * 1.525;
+const C3 = C1 + 1;
+const C4 = (2 * Math.PI) / 3;
+const C5 = (2 * Math.PI) / 4.5;
+
+const bounceOut = (t: number): number => {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+  if (t < 1 / d1) return n1 * t * t;
+  if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+  if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+  return n1 * (t -= 2.625 / d1) * t + 0.984375;
+};
+
+export const Ease = {
+  linear: (t: number): number => t,
+
+  // Polynomial
+  quadIn: (t: number): number => t * t,
+  quadOut: (t: number): number => 1 - (1 - t) * (1 - t),
+  quadInOut: (t: number): number => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+  cubicIn: (t: number): number => t * t * t,
+  cubicOut: (t: number): number => 1 - (1 - t) ** 3,
+  cubicInOut: (t: number): number => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+  quartIn: (t: number): number => t ** 4,
+  quartOut: (t: number): number => 1 - (1 - t) ** 4,
+  quartInOut: (t: number): number => (t < 0.5 ? 8 * t ** 4 : 1 - (-2 * t + 2) ** 4 / 2),
+  quintIn: (t: number): number => t ** 5,
+  quintOut: (t: number): number => 1 - (1 - t) ** 5,
+  quintInOut: (t: number): number => (t < 0.5 ? 16 * t ** 5 : 1 - (-2 * t + 2) ** 5 / 2),
+
+  // Curves
+  sineIn: (t: number): number => 1 - Math.cos((t * Math.PI) / 2),
+  sineOut: (t: number): number => Math.sin((t * Math.PI) / 2),
+  sineInOut: (t: number): number => -(Math.cos(Math.PI * t) - 1) / 2,
+  expoIn: (t: number): number => (t === 0 ? 0 : 2 ** (10 * t - 10)),
+  expoOut: (t: number): number => (t === 1 ? 1 : 1 - 2 ** (-10 * t)),
+  expoInOut: (t: number): number => {
+    if (t === 0 || t === 1) return t;
+    return t < 0.5 ? 2 ** (20 * t - 10) / 2 : (2 - 2 ** (-20 * t + 10)) / 2;
+  },
+  circIn: (t: number): number => 1 - Math.sqrt(1 - t * t),
+  circOut: (t: number): number => Math.sqrt(1 - (t - 1) ** 2),
+  circInOut: (t: number): number =>
+    t < 0.5 ? (1 - Math.sqrt(1 - (2 * t) ** 2)) / 2 : (Math.sqrt(1 - (-2 * t + 2) ** 2) + 1) / 2,
+
+  // Overshoot
+  backIn: (t: number): number => C3 * t * t * t - C1 * t * t,
+  backOut: (t: number): number => 1 + C3 * (t - 1) ** 3 + C1 * (t - 1) ** 2,
+  backInOut: (t: number): number =>
+    t < 0.5
+      ? ((2 * t) ** 2 * ((C2 + 1) * 2 * t - C2)) / 2
+      : ((2 * t - 2) ** 2 * ((C2 + 1) * (t * 2 - 2) + C2) + 2) / 2,
+  elasticIn: (t: number): number => {
+    if (t === 0 || t === 1) return t;
+    return -(2 ** (10 * t - 10)) * Math.sin((t * 10 - 10.75) * C4);
+  },
+  elasticOut: (t: number): number => {
+    if (t === 0 || t === 1) return t;
+    return 2 ** (-10 * t) * Math.sin((t * 10 - 0.75) * C4) + 1;
+  },
+  elasticInOut: (t: number): number => {
+    if (t === 0 || t === 1) return t;
+    return t < 0.5
+      ? -(2 ** (20 * t - 10) * Math.sin((20 * t - 11.125) * C5)) / 2
+      : (2 ** (-20 * t + 10) * Math.sin((20 * t - 11.125) * C5)) / 2 + 1;
+  },
+  bounceIn: (t: number): number => 1 - bounceOut(1 - t),
+  bounceOut,
+  bounceInOut: (t: number): number =>
+    t < 0.5 ? (1 - bounceOut(1 - 2 * t)) / 2 : (1 + bounceOut(2 * t - 1)) / 2,
+};
@@ -6,9 +6,25 @@
 export type { Vector2, Vector3, Color, HexColor, ColorValue, AxisConfig, ButtonConfig, InputConfig } from './types';
 
 // Core
-export { Game, type GameInitConfig, type GameInitResult } from './Game';
-export { Time } from './Time';
-export { Camera, type CameraConfig } from './Camera';
+export { Game, type GameInitConfig, type GameInitResult, type GameTimestepConfig, type GameHeadlessConfig, type GameHeadlessResult, type ScaleMode } from './Game';
+export { type CallbackOptions, type LoopPhase, type LoopHook, type LoopError } from './CallbackList';
+export type { LoopProfile, CallbackProfile, TimingStats, FrameTimingStats, ProfilerOptions } from './Profiler';
+export { Time, Clock, type ClockOptions, type FrameStats, type FrameStatsOptions, type RampScaleOptions, type TimeScaleEffect } from './Time';
+export { Timers, type Timer, type TimerClock, type TimerCallback, type TimerOptions, type RepeatTimerOptions } from './Timers';
+export { Tweens, type Tween, type TweenOptions, type TweenGroupOptions, type TweenProps, type TweenValue } from './Tweens';
+export {
+  Coroutines,
+  type Coroutine,
+  type CoroutineContext,
+  type CoroutineFunction,
+  type CoroutineOptions,
+  type CoroutineWait,
+  type CoroutineYield,
+} from './Coroutines';
+export { Camera, type CameraConfig, type CameraRect, type ShakeOptions, type KickOptions, type ZoomOptions, type CameraGroupTarget, type GroupFollowOptions, type LookAheadConfig, type CameraZone, type CameraPathOptions, type ParallaxOptions } from './Camera';
+export { SplitScreen, type SplitScreenConfig, type SplitScreenHit, type SplitViewRect } from './SplitScreen';
+export { Interpolator } from './Interpolator';
+export { SceneManager, Transitions, type Scene, type SceneContext, type SceneTransition } from './SceneManager';
 
 // Input
 export { Input, type InputMode } from './Input';
@@ -18,6 +34,8 @@ export { GamepadControls, GamepadButtons, type GamepadControlsConfig, type Gamep
 
 // Math
 export { vec2 } from './vec2';
+export { Random } from './Random';
+export { Ease, type EaseFunction } from './easing';
 
 // Dev Tools
-export { Tweaker, type TweakerConfig, type RegisterOptions, type FieldHint, type TweakerTheme } from './devtools';
+export { Tweaker, type TweakerConfig, type RegisterOptions, type FieldHint, type TweakerTheme, type GraphOptions } from './devtools';
@@ -0,0 +1,26 @@
+/**
+ * 1D gradient (Perlin) noise — smooth, continuous values for shake and wobble.
+ */
+
+import type { Random } from './Random';
+
+const SIZE = 256;
+
+/**
+ * Create a noise function from `random`. The result maps x to roughly [-1, 1],
+ * is 0 at whole numbers and changes about once per unit of x.
+ */
+export function createNoise1D(random: Random): (x: number) => number {
+  const gradients = new Float64Array(SIZE);
+  for (let i = 0; i < SIZE; i++) gradients[i] = random.range(-1, 1);
+
+  return (x: number): number => {
+    const i = Math.floor(x);
+    const f = x - i;
+    const g0 = gradients[i & (SIZE - 1)];
+    const g1 = gradients[(i + 1) & (SIZE - 1)];
+    const fade = f * f * f * (f * (f * 6 - 15) + 10);
+    // Two contributions of at most 0.5 each; double to use the full range
+    return 2 * (g0 * f + (g1 * (f - 1) - g0 * f) * fade);
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * scheduling - Internals shared by Time, Timers, Tweens and Coroutines: the
+ * float tolerance for time targets, and where callback errors go.
+ */
+
+import type { LoopError, LoopHook } from './CallbackList';
+
+/** Tolerance so float-summed frame times still land on exact targets (30 × 1/60 ≥ 0.5) */
+export const EPSILON = 1e-9;
+
+let errorHandler: ((info: LoopError) => void) | null = null;
+
+/** Route scheduled-callback errors to `handler` (Game sets its reportError; null restores console.error). */
+export function setErrorHandler(handler: ((info: LoopError) => void) | null): void {
+  errorHandler = handler;
+}
+
+/** Report an exception thrown by a timer, tween or coroutine. The caller carries on. */
+export function reportError(error: unknown, hook: LoopHook, label: string, failures = 1): void {
+  if (errorHandler) {
+    errorHandler({ error, hook, label, failures, disabled: false });
+  } else {
+    console.error(`[bonkjs] ${label} threw:`, error);
+  }
+}
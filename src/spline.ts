@@ -0,0 +1,86 @@
+/**
+ * Catmull-Rom splines through waypoints, sampled by distance along the curve
+ * so motion along them has an even speed.
+ */
+
+import type { Vector2 } from './types';
+
+/** Line samples per curve segment when measuring length */
+const SAMPLES_PER_SEGMENT = 16;
+
+export interface SplinePath {
+  /** Approximate curve length in world units */
+  readonly length: number;
+  /** Point `distance` along the curve, clamped to its ends */
+  at(distance: number): Vector2;
+}
+
+function catmullRom(p0: Vector2, p1: Vector2, p2: Vector2, p3: Vector2, t: number): Vector2 {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const axis = (i: 0 | 1): number =>
+    0.5 * (2 * p1[i] + (p2[i] - p0[i]) * t + (2 * p0[i] - 5 * p1[i] + 4 * p2[i] - p3[i]) * t2 + (3 * p1[i] - p0[i] - 3 * p2[i] + p3[i]) * t3);
+  return [axis(0), axis(1)];
+}
+
+/** Build a smooth path through every waypoint (at least one). */
+export function createSplinePath(waypoints: Vector2[]): SplinePath {
+  if (waypoints.length === 0) throw new Error('createSplinePath: need at least one waypoint');
+  const points: Vector2[] = [waypoints[0]];
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const p0 = waypoints[Math.max(0, i - 1)];
+    const p1 = waypoints[i];
+    const p2 = waypoints[i + 1];
+    const p3 = waypoints[Math.min(waypoints.length - 1, i + 2)];
+    for (let s = 1; s <= SAMPLES_PER_SEGMENT; s++) points.push(catmullRom(p0, p1, p2, p3, s / SAMPLES_PER_SEGMENT));
+  }
+
+  // Cumulative distance at each sample
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]));
+  }
+  const length = distances[distances.length - 1];
+
+  return {
+    length,
+    at(distance: number): Vector2 {
+      if (distance <= 0 || points.length === 1) return [...points[0]] as Vector2;
+      if (distance >= length) return [...points[points.length - 1]] as Vector2;
+      // Binary search for the sample pair around `distance`
+      let lo = 0;
+      let hi = distances.length - 1;
+      while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (distances[mid] <= distance) lo = mid;
+        else hi = mid;
+      }
+      const span = distances[hi] - distances[lo];
+      const t = span > 0 ? (distance - distances[lo]) / span : 0;
+      return [points[lo][0] + (points[hi][0] - points[lo][0]) * t, points[lo][1] + (points[hi][1] - points[lo][1]) * t];
+    },
+  };
+}
+
+/** Closest point to `point` on the polyline through `points`. */
+export function closestOnPolyline(points: Vector2[], point: Vector2): Vector2 {
+  if (points.length === 1) return [...points[0]] as Vector2;
+  let best: Vector2 = points[0];
+  let bestDistSq = Infinity;
+  for (let i = 0; i < points.length - 1; i++) {
+    const [ax, ay] = points[i];
+    const [bx, by] = points[i + 1];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq > 0 ? Math.max(0, Math.min(1, ((point[0] - ax) * dx + (point[1] - ay) * dy) / lenSq)) : 0;
+    const cx = ax + dx * t;
+    const cy = ay + dy * t;
+    const distSq = (point[0] - cx) ** 2 + (point[1] - cy) ** 2;
+    if (distSq < bestDistSq) {
+      bestDistSq = distSq;
+      best = [cx, cy];
+    }
+  }
+  return best;
+}